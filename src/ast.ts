@@ -6,22 +6,38 @@ export type NodeType =
 
   // Top-Level Declarations
   | "TaskDeclaration" // task build depends clean { ... }
+  | "TaskProperty" // inputs: glob("src/**/*.ts")
+  | "TaskHook" // on_failure { ... } | finally { ... }
+  | "AfterAllBlock" // after_all { ... }
+  | "OptionDeclaration" // option release: bool = false
   | "VarDeclaration" // const/let/env x = ...
   | "ToolDeclaration" // tool python { ... }
+  | "ImportDeclaration" // import "./other" as ns
+  | "FunctionDeclaration" // fn compile(src, minify: false) { ... }
 
   // The Only Statement Type Allowed
   | "ExpressionStmt" // Wraps a function call like rm(...)
   | "PlatformBlock" // platform-specific path
+  | "IfStatement" // if (cond) { ... } else { ... }
+  | "WhileStatement" // while (cond) { ... }
+  | "ForInStatement" // for (x in array) { ... }
+  | "BreakStatement" // break
+  | "ContinueStatement" // continue
+  | "ReturnStatement" // return value
+  | "TryStatement" // try { ... } catch (err) { ... }
 
   // Expressions (Values)
   | "NamedArg" // arg: value
   | "AssignmentExpr" // x = ...
-  | "BinaryExpr" // 2 + 3, "a" + "b"
+  | "BinaryExpr" // 2 + 3, "a" + "b", a == b
+  | "LogicalExpr" // a && b, a || b
+  | "UnaryExpr" // !a, -a
   | "CallExpr" // glob(...), path(...), exec(...)
+  | "MemberExpr" // cfg.out, files[0], cfg["out"]
   | "ArrayLiteral" // ["-o", "bin"]
   | "SpreadElement" // ...spread
-  | "ObjectLiteral" // Used for named args: { force: true }
-  | "Property" // Key-Value pair inside Object/Tool
+  | "ObjectLiteral" // { out: "dist", minify: true }
+  | "Property" // Key-Value pair inside an ObjectLiteral
   | "TemplateLiteral" // "${DIR}/file"
 
   // Primitives
@@ -32,8 +48,16 @@ export type NodeType =
 
 // Interfaces
 
+// where a node came from, lines and columns are 1-based and end is exclusive
+export interface Span {
+  file: string;
+  start: { line: number; col: number };
+  end: { line: number; col: number };
+}
+
 export interface Stmt {
   kind: NodeType;
+  span: Span;
 }
 
 export interface Expr extends Stmt {}
@@ -54,14 +78,73 @@ export interface VarDeclaration extends Stmt {
   value: Expr;
 }
 
-// task build depends [clean] { ... }
+// task deploy(target, region = "eu") depends [clean] { ... }
 export interface TaskDeclaration extends Stmt {
   kind: "TaskDeclaration";
-  symbol: string; // "build"
-  dependencies: string[]; // ["clean"]
+  symbol: string; // "deploy"
+  parameters: FunctionParam[]; // set from the command line or by dependents
+  dependencies: TaskDependency[]; // [clean]
+  properties: TaskProperty[]; // written at the top of the body
+  doc: string | null; // from the /// comments above it
   body: Expr[]; // A list of CallExprs (commands)
+  hooks: TaskHook[]; // written at the end of the body
+}
+
+// clean | docker.build | build(mode: "release"). the arguments are evaluated
+// with the parameters of the dependent task in scope
+export interface TaskDependency {
+  name: string; // "build", or "docker.build" for a namespaced one
+  args: Expr[]; // positional, or NamedArgs
+  span: Span;
+}
+
+// inputs: glob("src/**/*.ts") | outputs: path("dist")
+export interface TaskProperty extends Stmt {
+  kind: "TaskProperty";
+  name: string; // "inputs"
+  value: Expr;
+}
+
+// on_failure { ... } | finally { ... }, run after the task's body. they see
+// the error it failed with as `error`
+export interface TaskHook extends Stmt {
+  kind: "TaskHook";
+  hook: "on_failure" | "finally";
+  body: Stmt[];
+}
+
+// after_all { ... }, run once the tasks are done, whether or not they failed
+export interface AfterAllBlock extends Stmt {
+  kind: "AfterAllBlock";
+  body: Stmt[];
+}
+
+// option channel: "stable" | "beta" = "stable", a const that can be set
+// from the command line with --channel beta or -D channel=beta
+export interface OptionDeclaration extends Stmt {
+  kind: "OptionDeclaration";
+  symbol: string; // "channel"
+  valueType: OptionType;
+  choices: string[] | null; // the only strings allowed, if it lists them
+  defaultValue: Expr;
+  doc: string | null; // from the /// comments above it
 }
 
+export type OptionType = "bool" | "number" | "string";
+
+// fn compile(src, out, minify: false) { ... }
+export interface FunctionDeclaration extends Stmt {
+  kind: "FunctionDeclaration";
+  symbol: string; // "compile"
+  parameters: FunctionParam[];
+  body: Stmt[];
+}
+
+export type FunctionParam = {
+  name: string;
+  defaultValue: Expr | null; // set for named parameters (name: default)
+};
+
 // tool python { windows: "py.exe", unix: "python3" }
 // This replaces if/else for platform logic
 export interface ToolDeclaration extends Stmt {
@@ -70,6 +153,13 @@ export interface ToolDeclaration extends Stmt {
   options: ToolOption[]; // The platform mappings
 }
 
+// import "./ci/Buildfile.docker" | import "./ci/Buildfile.docker" as docker
+export interface ImportDeclaration extends Stmt {
+  kind: "ImportDeclaration";
+  path: string; // relative to the importing file
+  alias: string | null; // namespace name, null to merge into the current scope
+}
+
 type ToolOption = {
   platform: string | null;
   arch: string | null;
@@ -85,6 +175,53 @@ export interface PlatformBlock extends Stmt {
   elseBody?: Stmt[];
 }
 
+// if (cond) { ... } else if (cond) { ... } else { ... }
+// an `else if` chain is stored as a nested IfStatement in elseBody
+export interface IfStatement extends Stmt {
+  kind: "IfStatement";
+  condition: Expr;
+  body: Stmt[];
+  elseBody?: Stmt[];
+}
+
+// while (cond) { ... }
+export interface WhileStatement extends Stmt {
+  kind: "WhileStatement";
+  condition: Expr;
+  body: Stmt[];
+}
+
+// for (file in glob("src/**/*.ts")) { ... }
+export interface ForInStatement extends Stmt {
+  kind: "ForInStatement";
+  variable: string; // "file"
+  iterable: Expr;
+  body: Stmt[];
+}
+
+export interface BreakStatement extends Stmt {
+  kind: "BreakStatement";
+}
+
+export interface ContinueStatement extends Stmt {
+  kind: "ContinueStatement";
+}
+
+// return | return value
+export interface ReturnStatement extends Stmt {
+  kind: "ReturnStatement";
+  value: Expr | null;
+}
+
+// try { ... } catch (err) { ... }, the body runs in the enclosing scope like
+// an if's, the handler in its own with `param` set to the error
+export interface TryStatement extends Stmt {
+  kind: "TryStatement";
+  body: Stmt[];
+  param: string | null; // catch without (name) ignores the error
+  handler: Stmt[];
+}
+
 // Logic (Linear Execution)
 
 // x = ...
@@ -102,6 +239,21 @@ export interface BinaryExpr extends Expr {
   operator: string;
 }
 
+// a && b, a || b (short-circuiting)
+export interface LogicalExpr extends Expr {
+  kind: "LogicalExpr";
+  left: Expr;
+  right: Expr;
+  operator: "&&" | "||";
+}
+
+// !ready, -offset
+export interface UnaryExpr extends Expr {
+  kind: "UnaryExpr";
+  operator: string;
+  argument: Expr;
+}
+
 // arg: value
 export interface NamedArg extends Expr {
   kind: "NamedArg";
@@ -116,6 +268,14 @@ export interface CallExpr extends Expr {
   args: Expr[]; // Positional arguments
 }
 
+// cfg.out | files[0] | cfg["out"]
+export interface MemberExpr extends Expr {
+  kind: "MemberExpr";
+  object: Expr;
+  property: Expr; // an Identifier when not computed
+  computed: boolean; // true for obj[expr], false for obj.name
+}
+
 // Data Structures
 
 // [ "-o", ... ]
@@ -124,6 +284,18 @@ export interface ArrayLiteral extends Expr {
   elements: Expr[];
 }
 
+// { out: "dist", "min-js": true }
+export interface ObjectLiteral extends Expr {
+  kind: "ObjectLiteral";
+  properties: Property[];
+}
+
+export interface Property extends Expr {
+  kind: "Property";
+  key: string;
+  value: Expr;
+}
+
 // ...spread
 export interface SpreadElement extends Expr {
   kind: "SpreadElement";
@@ -137,7 +309,7 @@ export interface TemplateLiteral extends Expr {
   kind: "TemplateLiteral";
   raw: string; // The full string for easy debugging
   segments: string[]; // ["", "/main.cpp"]
-  variables: string[]; // ["SRC_DIR"] - simplified for DSL
+  expressions: Expr[]; // [Identifier(SRC_DIR)], one between each pair of segments
 }
 
 export interface Identifier extends Expr {
@@ -0,0 +1,267 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { createHash, randomBytes } from "node:crypto";
+
+const CACHE_VERSION = 1;
+
+export const DEFAULT_CACHE_SIZE = "10GB";
+
+// one output path of a cached task, relative to the Buildfile's directory
+type CachedOutput =
+  | { path: string; type: "file"; object: string; mode: number }
+  | { path: string; type: "dir" };
+
+interface CacheEntry {
+  version: number;
+  outputs: CachedOutput[];
+}
+
+export interface CacheStats {
+  entries: number;
+  objects: number;
+  size: number; // bytes taken by the objects
+}
+
+// the outputs of earlier task runs, keyed by everything that went into them.
+// file contents are stored once under their hash in objects/, and each
+// entry in entries/ lists the files a task produced. every write is a
+// rename, so several machines can share the directory
+export class ArtifactCache {
+  public readonly dir: string;
+  public readonly maxSize: number;
+
+  constructor(dir: string, maxSize: number) {
+    this.dir = dir;
+    this.maxSize = maxSize;
+  }
+
+  public has(key: string): boolean {
+    return this.readEntry(key) !== null;
+  }
+
+  // puts back the outputs stored under `key`, replacing what's there.
+  // returns false if nothing is stored for it
+  public restore(key: string, root: string, outputs: string[]): boolean {
+    const entry = this.readEntry(key);
+    if (!entry) return false;
+
+    const files = entry.outputs.filter((o) => o.type === "file");
+    if (!files.every((o) => fs.existsSync(this.objectPath(o.object)))) {
+      return false; // evicted from under it
+    }
+
+    for (const output of outputs) {
+      fs.rmSync(output, { recursive: true, force: true });
+    }
+
+    for (const output of entry.outputs) {
+      const target = path.resolve(root, output.path);
+      if (output.type === "dir") {
+        fs.mkdirSync(target, { recursive: true });
+        continue;
+      }
+
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.copyFileSync(this.objectPath(output.object), target);
+      fs.chmodSync(target, output.mode);
+    }
+
+    // entries are evicted least recently used first
+    const now = new Date();
+    fs.utimesSync(this.entryPath(key), now, now);
+    return true;
+  }
+
+  public store(key: string, root: string, outputs: string[]) {
+    const entry: CacheEntry = { version: CACHE_VERSION, outputs: [] };
+
+    for (const output of outputs) {
+      for (const file of walk(output)) {
+        const rel = path.relative(root, file).split(path.sep).join("/");
+        const stat = fs.statSync(file);
+
+        if (stat.isDirectory()) {
+          entry.outputs.push({ path: rel, type: "dir" });
+          continue;
+        }
+
+        const content = fs.readFileSync(file);
+        const object = createHash("sha256").update(content).digest("hex");
+        if (!fs.existsSync(this.objectPath(object))) {
+          this.writeAtomic(this.objectPath(object), content);
+        }
+        entry.outputs.push({
+          path: rel,
+          type: "file",
+          object,
+          mode: stat.mode & 0o777,
+        });
+      }
+    }
+
+    this.writeAtomic(this.entryPath(key), JSON.stringify(entry));
+    this.evict();
+  }
+
+  public stats(): CacheStats {
+    const objects = this.objects();
+    return {
+      entries: this.entryKeys().length,
+      objects: objects.size,
+      size: sum(objects.values()),
+    };
+  }
+
+  public clean(): CacheStats {
+    const stats = this.stats();
+    fs.rmSync(path.join(this.dir, "entries"), { recursive: true, force: true });
+    fs.rmSync(path.join(this.dir, "objects"), { recursive: true, force: true });
+    return stats;
+  }
+
+  // drops the least recently used entries until the objects the rest need
+  // fit in maxSize, then the objects nothing needs anymore
+  private evict() {
+    const objects = this.objects();
+    if (sum(objects.values()) <= this.maxSize) return;
+
+    const entries = this.entryKeys()
+      .map((key) => ({
+        key,
+        used: fs.statSync(this.entryPath(key)).mtimeMs,
+      }))
+      .sort((a, b) => b.used - a.used);
+
+    const kept = new Set<string>();
+    let size = 0;
+
+    for (const { key } of entries) {
+      const needed = new Set(
+        (this.readEntry(key)?.outputs ?? [])
+          .flatMap((o) => (o.type === "file" ? [o.object] : []))
+          .filter((object) => !kept.has(object)),
+      );
+      const extra = sum([...needed].map((o) => objects.get(o) ?? 0));
+
+      if (size + extra > this.maxSize) {
+        fs.rmSync(this.entryPath(key), { force: true });
+        continue;
+      }
+
+      needed.forEach((object) => kept.add(object));
+      size += extra;
+    }
+
+    for (const object of objects.keys()) {
+      if (!kept.has(object))
+        fs.rmSync(this.objectPath(object), { force: true });
+    }
+  }
+
+  private readEntry(key: string): CacheEntry | null {
+    try {
+      const entry = JSON.parse(fs.readFileSync(this.entryPath(key), "utf8"));
+      return entry.version === CACHE_VERSION ? entry : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private entryKeys(): string[] {
+    const dir = path.join(this.dir, "entries");
+    if (!fs.existsSync(dir)) return [];
+    return fs
+      .readdirSync(dir)
+      .filter((name) => name.endsWith(".json"))
+      .map((name) => name.slice(0, -".json".length));
+  }
+
+  // object hash -> size in bytes
+  private objects(): Map<string, number> {
+    const result = new Map<string, number>();
+    const dir = path.join(this.dir, "objects");
+    if (!fs.existsSync(dir)) return result;
+
+    for (const prefix of fs.readdirSync(dir)) {
+      for (const rest of fs.readdirSync(path.join(dir, prefix))) {
+        if (rest.includes(".tmp-")) continue;
+        const { size } = fs.statSync(path.join(dir, prefix, rest));
+        result.set(prefix + rest, size);
+      }
+    }
+    return result;
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.dir, "entries", `${key}.json`);
+  }
+
+  private objectPath(object: string): string {
+    return path.join(this.dir, "objects", object.slice(0, 2), object.slice(2));
+  }
+
+  private writeAtomic(file: string, data: string | Buffer) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const tmp = `${file}.tmp-${randomBytes(6).toString("hex")}`;
+    fs.writeFileSync(tmp, data);
+    fs.renameSync(tmp, file);
+  }
+}
+
+// the cache directory used unless another one is given
+export function defaultCacheDir(): string {
+  const base =
+    process.env.XDG_CACHE_HOME ||
+    (os.platform() === "win32" && process.env.LOCALAPPDATA) ||
+    path.join(os.homedir(), ".cache");
+  return path.join(base, "buildfile");
+}
+
+const SIZE_UNITS: Record<string, number> = {
+  "": 1,
+  B: 1,
+  KB: 1024,
+  MB: 1024 ** 2,
+  GB: 1024 ** 3,
+  TB: 1024 ** 4,
+};
+
+// "500MB" -> bytes, null if it isn't a size
+export function parseSize(text: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)\s*([KMGT]?B?)$/i.exec(text.trim());
+  if (!match) return null;
+
+  let unit = match[2].toUpperCase();
+  if (unit.length === 1 && unit !== "B") unit += "B";
+  return Math.floor(Number(match[1]) * SIZE_UNITS[unit]);
+}
+
+export function formatSize(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let i = 0;
+  while (bytes >= 1024 && i < units.length - 1) {
+    bytes /= 1024;
+    i++;
+  }
+  return `${i === 0 ? bytes : bytes.toFixed(1)} ${units[i]}`;
+}
+
+// `target` and everything under it
+function walk(target: string): string[] {
+  if (!fs.existsSync(target)) return [];
+  if (!fs.statSync(target).isDirectory()) return [target];
+
+  return [
+    target,
+    ...fs
+      .readdirSync(target, { recursive: true, encoding: "utf8" })
+      .map((entry) => path.join(target, entry)),
+  ];
+}
+
+function sum(values: Iterable<number>): number {
+  let total = 0;
+  for (const v of values) total += v;
+  return total;
+}
@@ -0,0 +1,979 @@
+import * as ast from "./ast.js";
+import { tokenize } from "./lexer.js";
+import { Parser } from "./parser.js";
+import { SyntaxError } from "./errors.js";
+import { createGlobalEnv } from "./environment.js";
+import { matchToolOption } from "./interpreter.js";
+import {
+  Diagnostic,
+  Severity,
+  fromSyntaxError,
+  sortDiagnostics,
+} from "./diagnostics.js";
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+// every rule `build check` can report, used for SARIF output
+export const RULES: Record<string, string> = {
+  "syntax-error": "The Buildfile could not be parsed",
+  "import-error": "An imported file is missing or imports itself",
+  "undefined-task": "A task depends on a task that doesn't exist",
+  "task-arguments": "A dependency is passed arguments its task doesn't take",
+  "dependency-cycle": "Tasks depend on each other in a cycle",
+  "undefined-variable": "A variable is used but never declared",
+  "duplicate-declaration": "A name is declared twice in the same scope",
+  "const-reassign": "A constant is reassigned or modified",
+  "tool-platform-coverage": "A tool has no option for a platform",
+  "unknown-platform": "A tool option names an unknown platform",
+  "unused-declaration": "A const, tool or function is never used",
+  "unreachable-task": "A task can't be reached from 'default'",
+  "builtin-flag":
+    "An option or task parameter is named like a flag of build itself",
+  "builtin-command":
+    "A task is named like a command of build itself, which it takes the place of",
+};
+
+// platforms/architectures every tool is expected to cover
+const PLATFORMS = ["windows", "linux", "darwin"];
+const ARCHES = ["x64", "arm64"];
+
+// platform keys a tool option may use, beyond those checked for coverage
+const KNOWN_PLATFORMS = new Set([
+  ...PLATFORMS,
+  "any",
+  "unix",
+  "aix",
+  "android",
+  "freebsd",
+  "openbsd",
+  "sunos",
+]);
+
+type SymbolKind =
+  | "builtin"
+  | "const"
+  | "let"
+  | "env"
+  | "task"
+  | "tool"
+  | "fn"
+  | "namespace"
+  | "param";
+
+interface SymbolInfo {
+  name: string;
+  kind: SymbolKind;
+  constant: boolean;
+  used: boolean;
+  span?: ast.Span;
+  task?: TaskNode; // for tasks
+  module?: ModuleInfo; // for namespaces
+}
+
+interface TaskNode {
+  name: string;
+  span: ast.Span;
+  parameters: ast.FunctionParam[];
+  dependencies: TaskNode[];
+}
+
+interface ModuleInfo {
+  file: string;
+  scope: Scope;
+}
+
+class Scope {
+  private symbols = new Map<string, SymbolInfo>();
+
+  constructor(public parent?: Scope) {}
+
+  public declare(symbol: SymbolInfo) {
+    this.symbols.set(symbol.name, symbol);
+  }
+
+  public own(name: string): SymbolInfo | undefined {
+    return this.symbols.get(name);
+  }
+
+  public lookup(name: string): SymbolInfo | undefined {
+    return this.symbols.get(name) ?? this.parent?.lookup(name);
+  }
+
+  public entries(): SymbolInfo[] {
+    return [...this.symbols.values()];
+  }
+
+  // what another file receives when importing this one, see Environment.exports
+  public exports(): SymbolInfo[] {
+    return this.entries().filter((s) => s.constant);
+  }
+}
+
+// statically analyses a Buildfile and the files it imports without running
+// anything. `sources` has the contents of files that differ from the disk,
+// like unsaved editor buffers, `flags` the long flags of build itself and
+// `commands` its commands, like fmt
+export function checkBuildfile(
+  file: string,
+  sources: Map<string, string> = new Map(),
+  flags: string[] = [],
+  commands: string[] = [],
+): Diagnostic[] {
+  return new Checker(
+    path.dirname(file),
+    sources,
+    new Set(flags),
+    new Set(commands),
+  ).check(file);
+}
+
+class Checker {
+  private diagnostics: Diagnostic[] = [];
+  private builtins: Scope;
+  private modules = new Map<string, ModuleInfo | null>();
+  private loading: string[] = [];
+
+  constructor(
+    cwd: string,
+    private sources: Map<string, string>,
+    private flags: Set<string>,
+    private commands: Set<string>,
+  ) {
+    this.builtins = new Scope();
+    for (const name of createGlobalEnv(cwd).exports().keys()) {
+      this.builtins.declare({
+        name,
+        kind: "builtin",
+        constant: true,
+        used: true,
+      });
+    }
+  }
+
+  public check(entryFile: string): Diagnostic[] {
+    // the main Buildfile shares its scope with the built-ins at runtime
+    const entry = this.loadModule(entryFile, this.builtins);
+    if (entry) {
+      this.checkCycles();
+      this.checkUnreachable(entry);
+      this.checkUnused(entry);
+    }
+    return sortDiagnostics(this.diagnostics);
+  }
+
+  private report(
+    severity: Severity,
+    code: string,
+    message: string,
+    span: ast.Span,
+  ) {
+    this.diagnostics.push({
+      severity,
+      code,
+      message,
+      file: span.file,
+      line: span.start.line,
+      col: span.start.col,
+      endLine: span.end.line,
+      endCol: span.end.col,
+    });
+  }
+
+  // modules
+
+  private loadModule(file: string, scope: Scope): ModuleInfo | null {
+    if (this.modules.has(file)) return this.modules.get(file)!;
+
+    let program: ast.Program;
+    try {
+      const result = new Parser().parse(
+        tokenize(this.sources.get(file) ?? fs.readFileSync(file, "utf8")),
+        file,
+      );
+      this.diagnostics.push(...result.diagnostics);
+      program = result.program;
+    } catch (e) {
+      if (!(e instanceof SyntaxError)) throw e;
+      this.diagnostics.push(fromSyntaxError(e, file));
+      this.modules.set(file, null);
+      return null;
+    }
+
+    const mod: ModuleInfo = { file, scope };
+
+    this.loading.push(file);
+
+    // declarations first, since task and function bodies can use anything
+    // declared in the file regardless of order
+    this.declareTopLevel(program.body, mod, false);
+    for (const stmt of program.body) {
+      this.checkStmt(stmt, scope, true);
+    }
+
+    this.loading.pop();
+
+    this.modules.set(file, mod);
+    return mod;
+  }
+
+  private declareImport(node: ast.ImportDeclaration, mod: ModuleInfo) {
+    const target = path.resolve(path.dirname(mod.file), node.path);
+
+    if (this.loading.includes(target)) {
+      this.report(
+        "error",
+        "import-error",
+        `Circular import of '${node.path}'`,
+        node.span,
+      );
+      return;
+    }
+
+    if (
+      !this.sources.has(target) &&
+      (!fs.existsSync(target) || !fs.statSync(target).isFile())
+    ) {
+      this.report(
+        "error",
+        "import-error",
+        `Cannot import '${node.path}': no file found at ${target}`,
+        node.span,
+      );
+      return;
+    }
+
+    const imported = this.loadModule(target, new Scope(this.builtins));
+    if (!imported) return;
+
+    if (node.alias) {
+      this.declare(mod.scope, node.alias, "namespace", true, node.span, false, {
+        module: imported,
+      });
+      return;
+    }
+
+    for (const symbol of imported.scope.exports()) {
+      const existing = mod.scope.own(symbol.name);
+      if (existing === symbol) continue; // shared import
+
+      if (existing) {
+        this.report(
+          "error",
+          "duplicate-declaration",
+          `Cannot import '${symbol.name}' from '${node.path}': '${symbol.name}' is already declared`,
+          node.span,
+        );
+        continue;
+      }
+
+      mod.scope.declare(symbol);
+    }
+  }
+
+  // declarations
+
+  private declareTopLevel(
+    body: ast.Stmt[],
+    mod: ModuleInfo,
+    conditional: boolean,
+  ) {
+    for (const stmt of body) {
+      switch (stmt.kind) {
+        case "ImportDeclaration":
+          this.declareImport(stmt as ast.ImportDeclaration, mod);
+          break;
+        case "VarDeclaration": {
+          const node = stmt as ast.VarDeclaration;
+          const kind = node.isEnv ? "env" : node.isConst ? "const" : "let";
+          this.declare(
+            mod.scope,
+            node.identifier,
+            kind,
+            node.isConst,
+            node.span,
+            conditional,
+          );
+          break;
+        }
+        case "OptionDeclaration": {
+          const node = stmt as ast.OptionDeclaration;
+          this.declare(
+            mod.scope,
+            node.symbol,
+            "const",
+            true,
+            node.span,
+            conditional,
+          );
+          break;
+        }
+        case "TaskDeclaration": {
+          const node = stmt as ast.TaskDeclaration;
+          this.declare(
+            mod.scope,
+            node.symbol,
+            "task",
+            true,
+            node.span,
+            conditional,
+            {
+              task: {
+                name: node.symbol,
+                span: node.span,
+                parameters: node.parameters,
+                dependencies: [],
+              },
+            },
+          );
+          break;
+        }
+        case "ToolDeclaration": {
+          const node = stmt as ast.ToolDeclaration;
+          this.declare(
+            mod.scope,
+            node.symbol,
+            "tool",
+            true,
+            node.span,
+            conditional,
+          );
+          break;
+        }
+        case "FunctionDeclaration": {
+          const node = stmt as ast.FunctionDeclaration;
+          this.declare(
+            mod.scope,
+            node.symbol,
+            "fn",
+            true,
+            node.span,
+            conditional,
+          );
+          break;
+        }
+        case "IfStatement": {
+          // only one branch runs, so the same name may appear in both
+          const node = stmt as ast.IfStatement;
+          this.declareTopLevel(node.body, mod, true);
+          this.declareTopLevel(node.elseBody ?? [], mod, true);
+          break;
+        }
+      }
+    }
+  }
+
+  private declare(
+    scope: Scope,
+    name: string,
+    kind: SymbolKind,
+    constant: boolean,
+    span: ast.Span,
+    conditional: boolean,
+    extra: Partial<SymbolInfo> = {},
+  ) {
+    const existing = scope.own(name);
+    if (existing) {
+      if (conditional) return;
+
+      // imported names come with a span in the file they're declared in
+      const from =
+        existing.kind === "namespace"
+          ? existing.module?.file
+          : existing.span?.file !== span.file
+            ? existing.span?.file
+            : undefined;
+      const where = from
+        ? `, it was imported from '${path.relative(path.dirname(span.file), from)}'`
+        : "";
+      this.report(
+        "error",
+        "duplicate-declaration",
+        `'${name}' is already declared${where}`,
+        span,
+      );
+      return;
+    }
+
+    scope.declare({ name, kind, constant, used: false, span, ...extra });
+  }
+
+  // statements
+
+  // `declared` is true for top-level statements, whose declarations were
+  // already made by declareTopLevel
+  private checkStmt(stmt: ast.Stmt, scope: Scope, declared: boolean) {
+    switch (stmt.kind) {
+      case "ImportDeclaration":
+        return;
+
+      case "VarDeclaration": {
+        const node = stmt as ast.VarDeclaration;
+        this.checkExpr(node.value, scope);
+        if (!declared) {
+          const kind = node.isEnv ? "env" : node.isConst ? "const" : "let";
+          this.declare(
+            scope,
+            node.identifier,
+            kind,
+            node.isConst,
+            node.span,
+            false,
+          );
+        }
+        return;
+      }
+
+      case "TaskDeclaration": {
+        const node = stmt as ast.TaskDeclaration;
+        const task = scope.own(node.symbol)?.task;
+
+        if (this.commands.has(node.symbol)) {
+          this.report(
+            "warning",
+            "builtin-command",
+            `'build ${node.symbol}' runs task '${node.symbol}' instead of the ${node.symbol} command. Rename the task to use the command`,
+            node.span,
+          );
+        }
+
+        const taskScope = new Scope(scope);
+        for (const param of node.parameters) {
+          if (this.flags.has(param.name)) {
+            this.report(
+              "warning",
+              "builtin-flag",
+              `Parameter '${param.name}' of task '${node.symbol}' can only be given as ${param.name}=<value>, --${param.name} is a flag of build itself`,
+              node.span,
+            );
+          }
+          // defaults can refer to earlier parameters
+          if (param.defaultValue) this.checkExpr(param.defaultValue, taskScope);
+          taskScope.declare({
+            name: param.name,
+            kind: "param",
+            constant: false,
+            used: true,
+          });
+        }
+
+        for (const dep of node.dependencies) {
+          dep.args.forEach((arg) => this.checkExpr(arg, taskScope));
+
+          const target = this.resolveTask(dep.name, scope, dep.span);
+          if (!target) continue;
+          this.checkTaskArgs(dep, target);
+          if (task) task.dependencies.push(target);
+        }
+
+        for (const prop of node.properties) {
+          this.checkExpr(prop.value, taskScope);
+        }
+        this.checkBlock(node.body, taskScope);
+        for (const hook of node.hooks) this.checkHook(hook.body, taskScope);
+        return;
+      }
+
+      case "AfterAllBlock":
+        this.checkHook((stmt as ast.AfterAllBlock).body, scope);
+        return;
+
+      // always top-level, declared by declareTopLevel
+      case "OptionDeclaration": {
+        const node = stmt as ast.OptionDeclaration;
+        if (this.flags.has(node.symbol)) {
+          this.report(
+            "warning",
+            "builtin-flag",
+            `Option '${node.symbol}' can only be set with -D ${node.symbol}=<value>, --${node.symbol} is a flag of build itself`,
+            node.span,
+          );
+        }
+        this.checkExpr(node.defaultValue, scope);
+        return;
+      }
+
+      case "ToolDeclaration":
+        this.checkTool(stmt as ast.ToolDeclaration, scope);
+        return;
+
+      case "FunctionDeclaration": {
+        const node = stmt as ast.FunctionDeclaration;
+        if (!declared) {
+          this.declare(scope, node.symbol, "fn", true, node.span, false);
+        }
+
+        const fnScope = new Scope(scope);
+        for (const param of node.parameters) {
+          // defaults can refer to earlier parameters
+          if (param.defaultValue) this.checkExpr(param.defaultValue, fnScope);
+          fnScope.declare({
+            name: param.name,
+            kind: "param",
+            constant: false,
+            used: true,
+          });
+        }
+
+        this.checkBlock(node.body, fnScope);
+        return;
+      }
+
+      case "IfStatement": {
+        const node = stmt as ast.IfStatement;
+        this.checkExpr(node.condition, scope);
+        this.checkBranches([node.body, node.elseBody ?? []], scope, declared);
+        return;
+      }
+
+      case "PlatformBlock": {
+        const node = stmt as ast.PlatformBlock;
+        this.checkBranches([node.body, node.elseBody ?? []], scope, declared);
+        return;
+      }
+
+      case "TryStatement": {
+        const node = stmt as ast.TryStatement;
+        this.checkBranches([node.body], scope, declared);
+
+        const catchScope = new Scope(scope);
+        if (node.param) {
+          catchScope.declare({
+            name: node.param,
+            kind: "let",
+            constant: false,
+            used: true,
+          });
+        }
+        this.checkBlock(node.handler, catchScope);
+        return;
+      }
+
+      case "WhileStatement": {
+        const node = stmt as ast.WhileStatement;
+        this.checkExpr(node.condition, scope);
+        this.checkBlock(node.body, new Scope(scope));
+        return;
+      }
+
+      case "ForInStatement": {
+        const node = stmt as ast.ForInStatement;
+        this.checkExpr(node.iterable, scope);
+
+        const iterScope = new Scope(scope);
+        iterScope.declare({
+          name: node.variable,
+          kind: "let",
+          constant: false,
+          used: true,
+        });
+        this.checkBlock(node.body, iterScope);
+        return;
+      }
+
+      case "ReturnStatement": {
+        const node = stmt as ast.ReturnStatement;
+        if (node.value) this.checkExpr(node.value, scope);
+        return;
+      }
+
+      case "BreakStatement":
+      case "ContinueStatement":
+        return;
+
+      default:
+        this.checkExpr(stmt, scope);
+    }
+  }
+
+  private checkBlock(body: ast.Stmt[], scope: Scope) {
+    for (const stmt of body) {
+      this.checkStmt(stmt, scope, false);
+    }
+  }
+
+  // on_failure, finally and after_all blocks, which get `error`
+  private checkHook(body: ast.Stmt[], scope: Scope) {
+    const hookScope = new Scope(scope);
+    hookScope.declare({
+      name: "error",
+      kind: "const",
+      constant: true,
+      used: true,
+    });
+    this.checkBlock(body, hookScope);
+  }
+
+  // branches run in the enclosing scope, so whatever they declare is visible
+  // after them. each branch is checked on its own so that declaring the same
+  // name in both isn't a duplicate
+  private checkBranches(
+    branches: ast.Stmt[][],
+    scope: Scope,
+    declared: boolean,
+  ) {
+    for (const branch of branches) {
+      // top-level branches were declared into the file's scope, see
+      // declareTopLevel. elsewhere each has a scope of its own
+      const branchScope = declared ? scope : new Scope(scope);
+      for (const stmt of branch) {
+        this.checkStmt(stmt, branchScope, declared);
+      }
+    }
+  }
+
+  private checkTool(node: ast.ToolDeclaration, scope: Scope) {
+    for (const opt of node.options) {
+      this.checkExpr(opt.expr, scope);
+
+      if (opt.platform && !KNOWN_PLATFORMS.has(opt.platform)) {
+        this.report(
+          "warning",
+          "unknown-platform",
+          `Tool '${node.symbol}' has an option for unknown platform '${opt.platform}'`,
+          opt.expr.span,
+        );
+      }
+    }
+
+    const missing: string[] = [];
+    for (const plat of PLATFORMS) {
+      for (const arch of ARCHES) {
+        if (!matchToolOption(node.options, plat, arch)) {
+          missing.push(`${plat}-${arch}`);
+        }
+      }
+    }
+
+    if (missing.length > 0) {
+      this.report(
+        "warning",
+        "tool-platform-coverage",
+        `Tool '${node.symbol}' has no option for ${missing.join(", ")}`,
+        node.span,
+      );
+    }
+  }
+
+  // expressions
+
+  private checkExpr(expr: ast.Expr, scope: Scope) {
+    switch (expr.kind) {
+      case "Identifier": {
+        const node = expr as ast.Identifier;
+        const symbol = scope.lookup(node.symbol);
+        if (symbol) {
+          symbol.used = true;
+        } else {
+          this.report(
+            "error",
+            "undefined-variable",
+            `Cannot resolve undefined variable '${node.symbol}'`,
+            node.span,
+          );
+        }
+        return;
+      }
+
+      case "MemberExpr": {
+        const node = expr as ast.MemberExpr;
+        this.checkExpr(node.object, scope);
+        if (node.computed) {
+          this.checkExpr(node.property, scope);
+        } else {
+          this.checkNamespaceMember(node, scope);
+        }
+        return;
+      }
+
+      case "AssignmentExpr": {
+        const node = expr as ast.AssignmentExpr;
+        this.checkAssignee(node.assignee, scope);
+        this.checkExpr(node.value, scope);
+        return;
+      }
+
+      case "BinaryExpr":
+      case "LogicalExpr": {
+        const node = expr as ast.BinaryExpr | ast.LogicalExpr;
+        this.checkExpr(node.left, scope);
+        this.checkExpr(node.right, scope);
+        return;
+      }
+
+      case "UnaryExpr":
+        this.checkExpr((expr as ast.UnaryExpr).argument, scope);
+        return;
+
+      case "CallExpr": {
+        const node = expr as ast.CallExpr;
+        this.checkExpr(node.callee, scope);
+        node.args.forEach((arg) => this.checkExpr(arg, scope));
+        return;
+      }
+
+      case "NamedArg":
+        this.checkExpr((expr as ast.NamedArg).value, scope);
+        return;
+
+      case "SpreadElement":
+        this.checkExpr((expr as ast.SpreadElement).argument, scope);
+        return;
+
+      case "ArrayLiteral":
+        (expr as ast.ArrayLiteral).elements.forEach((el) =>
+          this.checkExpr(el, scope),
+        );
+        return;
+
+      case "ObjectLiteral":
+        (expr as ast.ObjectLiteral).properties.forEach((prop) =>
+          this.checkExpr(prop.value, scope),
+        );
+        return;
+
+      case "TemplateLiteral":
+        (expr as ast.TemplateLiteral).expressions.forEach((e) =>
+          this.checkExpr(e, scope),
+        );
+        return;
+    }
+  }
+
+  private checkAssignee(assignee: ast.Expr, scope: Scope) {
+    if (assignee.kind === "Identifier") {
+      const node = assignee as ast.Identifier;
+      const symbol = scope.lookup(node.symbol);
+
+      if (!symbol) {
+        this.report(
+          "error",
+          "undefined-variable",
+          `Cannot assign to undefined variable '${node.symbol}'`,
+          node.span,
+        );
+      } else if (symbol.constant) {
+        this.report(
+          "error",
+          "const-reassign",
+          `Cannot reassign constant '${node.symbol}'`,
+          node.span,
+        );
+      }
+      return;
+    }
+
+    if (assignee.kind === "MemberExpr") {
+      let root: ast.Expr = assignee;
+      while (root.kind === "MemberExpr") {
+        root = (root as ast.MemberExpr).object;
+      }
+
+      if (root.kind === "Identifier") {
+        const symbol = scope.lookup((root as ast.Identifier).symbol);
+        if (symbol?.constant) {
+          this.report(
+            "error",
+            "const-reassign",
+            `Cannot modify constant '${symbol.name}'`,
+            assignee.span,
+          );
+        }
+      }
+    }
+
+    this.checkExpr(assignee, scope);
+  }
+
+  private checkNamespaceMember(node: ast.MemberExpr, scope: Scope) {
+    if (node.object.kind !== "Identifier") return;
+
+    const ns = scope.lookup((node.object as ast.Identifier).symbol);
+    if (ns?.kind !== "namespace" || !ns.module) return;
+
+    const name = (node.property as ast.Identifier).symbol;
+    const symbol = ns.module.scope.own(name);
+
+    if (symbol?.constant) {
+      symbol.used = true;
+    } else {
+      this.report(
+        "error",
+        "undefined-variable",
+        `'${ns.name}' has no export named '${name}'`,
+        node.property.span,
+      );
+    }
+  }
+
+  // tasks
+
+  private resolveTask(
+    name: string,
+    scope: Scope,
+    span: ast.Span,
+  ): TaskNode | null {
+    const [head, ...rest] = name.split(".");
+    let symbol = scope.lookup(head);
+
+    for (const key of rest) {
+      symbol =
+        symbol?.kind === "namespace"
+          ? symbol.module?.scope.own(key)
+          : undefined;
+    }
+
+    if (!symbol || symbol.kind !== "task" || !symbol.task) {
+      this.report(
+        "error",
+        "undefined-task",
+        `Task depends on undefined task '${name}'`,
+        span,
+      );
+      return null;
+    }
+
+    symbol.used = true;
+    return symbol.task;
+  }
+
+  // the arguments of `depends build(mode: "release")` against the
+  // parameters of build
+  private checkTaskArgs(dep: ast.TaskDependency, target: TaskNode) {
+    const given = new Set<string>();
+    let position = 0;
+
+    for (const arg of dep.args) {
+      if (arg.kind !== "NamedArg") {
+        const param = target.parameters[position++];
+        if (param) {
+          given.add(param.name);
+        } else {
+          this.report(
+            "error",
+            "task-arguments",
+            `Task '${dep.name}' takes at most ${target.parameters.length} argument(s)`,
+            arg.span,
+          );
+        }
+        continue;
+      }
+
+      const { name } = arg as ast.NamedArg;
+      if (!target.parameters.some((p) => p.name === name)) {
+        this.report(
+          "error",
+          "task-arguments",
+          `Task '${dep.name}' has no parameter '${name}'`,
+          arg.span,
+        );
+      }
+      given.add(name);
+    }
+
+    for (const param of target.parameters) {
+      if (!param.defaultValue && !given.has(param.name)) {
+        this.report(
+          "error",
+          "task-arguments",
+          `Missing argument '${param.name}' for task '${dep.name}'`,
+          dep.span,
+        );
+      }
+    }
+  }
+
+  private allTasks(): TaskNode[] {
+    const tasks = new Set<TaskNode>();
+    for (const mod of this.modules.values()) {
+      for (const symbol of mod?.scope.entries() ?? []) {
+        if (symbol.task) tasks.add(symbol.task);
+      }
+    }
+    return [...tasks];
+  }
+
+  private checkCycles() {
+    const done = new Set<TaskNode>();
+    const stack: TaskNode[] = [];
+    const reported = new Set<string>();
+
+    const visit = (task: TaskNode) => {
+      if (done.has(task)) return;
+
+      const index = stack.indexOf(task);
+      if (index !== -1) {
+        const cycle = [...stack.slice(index), task];
+        const key = cycle
+          .slice(1)
+          .map((t) => t.name)
+          .sort()
+          .join(",");
+
+        if (!reported.has(key)) {
+          reported.add(key);
+          this.report(
+            "error",
+            "dependency-cycle",
+            `Dependency cycle: ${cycle.map((t) => t.name).join(" -> ")}`,
+            task.span,
+          );
+        }
+        return;
+      }
+
+      stack.push(task);
+      task.dependencies.forEach(visit);
+      stack.pop();
+      done.add(task);
+    };
+
+    this.allTasks().forEach(visit);
+  }
+
+  private checkUnreachable(entry: ModuleInfo) {
+    const root = entry.scope.own("default")?.task;
+    if (!root) return;
+
+    const reachable = new Set<TaskNode>();
+    const visit = (task: TaskNode) => {
+      if (reachable.has(task)) return;
+      reachable.add(task);
+      task.dependencies.forEach(visit);
+    };
+    visit(root);
+
+    for (const symbol of entry.scope.entries()) {
+      if (
+        symbol.task &&
+        symbol.span?.file === entry.file &&
+        !reachable.has(symbol.task)
+      ) {
+        this.report(
+          "info",
+          "unreachable-task",
+          `Task '${symbol.name}' is not reachable from 'default'`,
+          symbol.span,
+        );
+      }
+    }
+  }
+
+  private checkUnused(entry: ModuleInfo) {
+    for (const symbol of entry.scope.entries()) {
+      if (
+        (symbol.kind === "const" ||
+          symbol.kind === "tool" ||
+          symbol.kind === "fn") &&
+        !symbol.used &&
+        symbol.span?.file === entry.file
+      ) {
+        this.report(
+          "warning",
+          "unused-declaration",
+          `${symbol.kind === "fn" ? "Function" : symbol.kind === "tool" ? "Tool" : "Constant"} '${symbol.name}' is declared but never used`,
+          symbol.span,
+        );
+      }
+    }
+  }
+}
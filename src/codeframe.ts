@@ -0,0 +1,55 @@
+import { Span } from "./ast.js";
+
+// renders the lines around a location with a caret marker underneath, eg.
+//
+//   16 |     echo("Compiling TypeScript...")
+// > 17 |     exec("tsc")
+//      |     ^^^^^^^^^^^
+//   18 | }
+export function codeFrame(
+  src: string,
+  start: Span["start"],
+  end?: Span["end"],
+  contextLines = 2,
+): string {
+  const lines = src.split(/\r?\n/);
+
+  // a trailing newline isn't a line of its own unless the error points there
+  if (lines.length > start.line && lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  const first = Math.max(1, start.line - contextLines);
+  const last = Math.min(lines.length, start.line + contextLines);
+  const gutterWidth = String(last).length;
+
+  // multi-line spans are underlined up to the end of their first line
+  const lineText = lines[start.line - 1] ?? "";
+  const endCol = end && end.line === start.line ? end.col : lineText.length + 1;
+  const caretCount = Math.max(1, endCol - start.col);
+
+  const frame: string[] = [];
+
+  for (let ln = first; ln <= last; ln++) {
+    const marker = ln === start.line ? ">" : " ";
+    const gutter = String(ln).padStart(gutterWidth);
+    frame.push(`${marker} ${gutter} | ${lines[ln - 1]}`.trimEnd());
+
+    if (ln === start.line) {
+      // keep tabs so the caret lines up with the source
+      const indent = lineText.slice(0, start.col - 1).replace(/[^\t]/g, " ");
+      frame.push(
+        `  ${" ".repeat(gutterWidth)} | ${indent}${"^".repeat(caretCount)}`,
+      );
+    }
+  }
+
+  return frame.join("\n");
+}
+
+// the text `span` covers in `src`
+export function sliceSpan(src: string, span: Span): string {
+  const lines = src.split("\n").slice(span.start.line - 1, span.end.line);
+  lines[lines.length - 1] = lines[lines.length - 1].slice(0, span.end.col - 1);
+  lines[0] = lines[0].slice(span.start.col - 1);
+  return lines.join("\n");
+}
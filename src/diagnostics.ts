@@ -0,0 +1,95 @@
+import { SyntaxError } from "./errors.js";
+import * as path from "node:path";
+
+export type Severity = "error" | "warning" | "info";
+
+// a problem found in a Buildfile without running it, lines and columns are
+// 1-based. produced by the parser and meant to be consumed by the CLI as well
+// as editor tooling
+export interface Diagnostic {
+  severity: Severity;
+  message: string;
+  code?: string; // rule id, eg. "undefined-task"
+  file: string;
+  line: number;
+  col: number;
+  endLine?: number;
+  endCol?: number; // exclusive
+}
+
+export function fromSyntaxError(err: SyntaxError, file: string): Diagnostic {
+  return {
+    severity: "error",
+    message: err.reason,
+    code: "syntax-error",
+    file: err.file ?? file,
+    line: err.line,
+    col: err.col,
+  };
+}
+
+export function sortDiagnostics(diagnostics: Diagnostic[]): Diagnostic[] {
+  return [...diagnostics].sort(
+    (a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.col - b.col,
+  );
+}
+
+export interface ToolInfo {
+  name: string;
+  version: string;
+  informationUri?: string;
+  rules: Record<string, string>; // rule id -> short description
+}
+
+// SARIF 2.1.0, as understood by GitHub code scanning and most CI systems
+export function toSarif(
+  diagnostics: Diagnostic[],
+  tool: ToolInfo,
+  baseDir: string,
+): object {
+  const levels: Record<Severity, string> = {
+    error: "error",
+    warning: "warning",
+    info: "note",
+  };
+
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: tool.name,
+            version: tool.version,
+            informationUri: tool.informationUri,
+            rules: Object.entries(tool.rules).map(([id, text]) => ({
+              id,
+              shortDescription: { text },
+            })),
+          },
+        },
+        results: diagnostics.map((d) => ({
+          ruleId: d.code,
+          level: levels[d.severity],
+          message: { text: d.message },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: {
+                  uri: path.relative(baseDir, d.file).split(path.sep).join("/"),
+                },
+                region: {
+                  startLine: d.line,
+                  startColumn: d.col,
+                  endLine: d.endLine,
+                  endColumn: d.endCol,
+                },
+              },
+            },
+          ],
+        })),
+      },
+    ],
+  };
+}
@@ -1,21 +1,28 @@
-import { RuntimeError } from "./errors.js";
+import { CancelledError, CommandError, RuntimeError } from "./errors.js";
 import {
   MK_BOOL,
   MK_NIL,
+  MK_NUMBER,
   MK_STRING,
   MK_ARRAY,
   MK_NATIVE_FN,
   RuntimeVal,
-  ObjectVal,
+  stringify,
   ArrayVal,
 } from "./values.js";
 
 // for global functions
 import * as fs from "node:fs";
+import * as os from "node:os";
 import * as path from "node:path";
 import * as cp from "node:child_process";
+import * as util from "node:util";
 import { globSync } from "glob";
 import chalk from "chalk";
+import { currentOutput, humanOutput } from "./output.js";
+import { runningTask, timeCommand } from "./timings.js";
+import { BuildEvents } from "./events.js";
+import { performance } from "node:perf_hooks";
 
 export default class Environment {
   private parent?: Environment;
@@ -23,12 +30,15 @@ export default class Environment {
   private constants: Set<string>;
 
   private envVariables: Set<string>;
+  // name -> path of the import it came from
+  private imports: Map<string, string>;
 
   constructor(parentENV?: Environment) {
     this.parent = parentENV;
     this.variables = new Map();
     this.constants = new Set();
     this.envVariables = new Set();
+    this.imports = new Map();
   }
 
   public declareVar(
@@ -38,7 +48,12 @@ export default class Environment {
     isEnv: boolean = false,
   ): RuntimeVal {
     if (this.variables.has(varname)) {
-      throw new RuntimeError(`Variable '${varname}' is already declared.`);
+      const from = this.imports.get(varname);
+      throw new RuntimeError(
+        from === undefined
+          ? `Variable '${varname}' is already declared.`
+          : `Variable '${varname}' is already declared, it was imported from '${from}'.`,
+      );
     }
 
     if (isEnv) {
@@ -64,6 +79,12 @@ export default class Environment {
     return value;
   }
 
+  // a constant that came from importing the file at `from`
+  public declareImport(varname: string, value: RuntimeVal, from: string) {
+    this.declareVar(varname, value, true);
+    this.imports.set(varname, from);
+  }
+
   public assignVar(varname: string, value: RuntimeVal): RuntimeVal {
     const env = this.resolve(varname);
 
@@ -100,30 +121,122 @@ export default class Environment {
     const env = this.resolve(varname);
     return env.variables.get(varname) as RuntimeVal;
   }
-}
 
-function getNamedArgs(args: RuntimeVal[]): Map<string, RuntimeVal> | null {
-  if (args.length > 0 && args[args.length - 1].type === "object") {
-    return (args[args.length - 1] as ObjectVal).properties;
+  public isConstant(varname: string): boolean {
+    return this.resolve(varname).constants.has(varname);
   }
-  return null;
+
+  public hasVar(varname: string): boolean {
+    if (this.variables.has(varname)) return true;
+    return this.parent ? this.parent.hasVar(varname) : false;
+  }
+
+  // the env variables visible from this scope and their current values
+  public envValues(): Record<string, string> {
+    const result = this.parent ? this.parent.envValues() : {};
+    for (const name of this.envVariables) {
+      result[name] = process.env[name] ?? "";
+    }
+    return result;
+  }
+
+  // constants declared directly in this scope (consts, tools and tasks),
+  // these are what another file receives when it imports this one
+  public exports(): Map<string, RuntimeVal> {
+    const result = new Map<string, RuntimeVal>();
+    for (const name of this.constants) {
+      result.set(name, this.variables.get(name) as RuntimeVal);
+    }
+    return result;
+  }
+}
+
+export interface BuiltinDoc {
+  signature: string;
+  description: string;
+  namedArgs?: Record<string, string>;
+}
+
+// documentation for the functions in createGlobalEnv, shown by the language
+// server on hover and completion
+export const BUILTIN_DOCS: Record<string, BuiltinDoc> = {
+  echo: {
+    signature: "echo(messages...)",
+    description: "Prints to standard output.",
+  },
+  warn: {
+    signature: "warn(messages...)",
+    description: "Prints yellow text to standard error.",
+  },
+  path: {
+    signature: "path(segments...)",
+    description:
+      "Resolves a path relative to the Buildfile's directory. Handles Windows backslashes automatically.",
+  },
+  mkdir: {
+    signature: "mkdir(path)",
+    description: "Creates a directory recursively (like `mkdir -p`).",
+  },
+  rm: {
+    signature: "rm(target, force: false)",
+    description: "Removes files or directories.",
+    namedArgs: {
+      force: "If true, performs a recursive delete (like `rm -rf`).",
+    },
+  },
+  glob: {
+    signature: "glob(pattern)",
+    description:
+      "Finds files matching a pattern. Returns an array of absolute paths.",
+  },
+  exec: {
+    signature: "exec(command, args..., args: [], allow_failure: false)",
+    description:
+      "Runs a command and waits for it to exit before the next statement, failing the task if it exits with a non-zero code. With -j, commands of different tasks run at the same time.",
+    namedArgs: {
+      args: "An array of additional arguments, useful when building them dynamically.",
+      allow_failure:
+        "If true, returns the exit code instead of failing (127 if the command can't be started).",
+    },
+  },
+};
+
+export interface GlobalEnvOptions {
+  // print what mkdir, rm and exec would do instead of doing it
+  dryRun?: boolean;
+  // kills running commands when aborted, and fails any started after
+  signal?: AbortSignal;
+  // what came after `--` on the command line
+  argv?: string[];
+  // where warn and exec report to
+  events?: BuildEvents;
 }
 
-export function createGlobalEnv(cwd: string): Environment {
+export function createGlobalEnv(
+  cwd: string,
+  options: GlobalEnvOptions = {},
+): Environment {
   const env = new Environment();
+  const {
+    dryRun = false,
+    signal,
+    argv = [],
+    events = new BuildEvents(),
+  } = options;
 
   env.declareVar("true", MK_BOOL(true), true);
   env.declareVar("false", MK_BOOL(false), true);
   env.declareVar("nil", MK_NIL(), true);
   env.declareVar("cwd", MK_STRING(cwd), true);
+  env.declareVar("argv", MK_ARRAY(argv.map((a) => MK_STRING(a))), true);
 
   env.declareVar(
     "echo",
     MK_NATIVE_FN((args) => {
-      const mapped = args
-        .filter((a) => a.type !== "object")
-        .map((a) => a.value);
-      console.log(...mapped);
+      const mapped = args.map((a) =>
+        a.type === "object" ? stringify(a) : a.value,
+      );
+      currentOutput().stdout(util.format(...mapped) + "\n");
       return MK_NIL();
     }),
     true,
@@ -132,13 +245,15 @@ export function createGlobalEnv(cwd: string): Environment {
   env.declareVar(
     "warn",
     MK_NATIVE_FN((args) => {
-      const useColor = process.stderr.isTTY;
-
-      const mapped = args
-        .filter((a) => a.type !== "object")
-        .map((a) => a.value);
+      const mapped = args.map((a) =>
+        a.type === "object" ? stringify(a) : a.value,
+      );
 
-      console.error(...mapped.map((v) => (useColor ? chalk.yellow(v) : v)));
+      // printed by the reporters
+      events.emit("warn", {
+        task: runningTask(),
+        message: util.format(...mapped),
+      });
 
       return MK_NIL();
     }),
@@ -148,9 +263,7 @@ export function createGlobalEnv(cwd: string): Environment {
   env.declareVar(
     "path",
     MK_NATIVE_FN((args) => {
-      const segments = args
-        .filter((a) => a.type !== "object")
-        .map((a) => String(a.value));
+      const segments = args.map((a) => String(a.value));
       return MK_STRING(path.resolve(cwd, ...segments));
     }),
     true,
@@ -160,7 +273,9 @@ export function createGlobalEnv(cwd: string): Environment {
     "mkdir",
     MK_NATIVE_FN((args) => {
       const dir = path.resolve(cwd, String(args[0]?.value));
-      if (!fs.existsSync(dir)) {
+      if (dryRun) {
+        printDryRun(`mkdir ${quoteArg(dir)}`);
+      } else if (!fs.existsSync(dir)) {
         fs.mkdirSync(dir, { recursive: true });
       }
       return MK_NIL();
@@ -170,12 +285,13 @@ export function createGlobalEnv(cwd: string): Environment {
 
   env.declareVar(
     "rm",
-    MK_NATIVE_FN((args) => {
+    MK_NATIVE_FN((args, _env, named) => {
       const target = path.resolve(cwd, String(args[0]?.value));
-      const named = getNamedArgs(args);
-      const force = named?.get("force")?.value === true;
+      const force = named.get("force")?.value === true;
 
-      if (fs.existsSync(target)) {
+      if (dryRun) {
+        printDryRun(`rm ${quoteArg(target)}${force ? " (force)" : ""}`);
+      } else if (fs.existsSync(target)) {
         fs.rmSync(target, { recursive: force, force });
       }
 
@@ -198,17 +314,13 @@ export function createGlobalEnv(cwd: string): Environment {
 
   env.declareVar(
     "exec",
-    MK_NATIVE_FN((args) => {
+    MK_NATIVE_FN(async (args, _env, named) => {
       const cmd = String(args[0]?.value);
 
-      const positionalArgs = args
-        .slice(1)
-        .filter((a) => a.type !== "object")
-        .map((a) => String(a.value));
+      const positionalArgs = args.slice(1).map((a) => String(a.value));
 
-      const named = getNamedArgs(args);
       let namedArgsList: string[] = [];
-      const argsVal = named?.get("args");
+      const argsVal = named.get("args");
       if (argsVal && argsVal.type === "array") {
         namedArgsList = (argsVal as ArrayVal).elements.map((e) =>
           String(e.value),
@@ -216,22 +328,97 @@ export function createGlobalEnv(cwd: string): Environment {
       }
 
       const cmdArgs = [...positionalArgs, ...namedArgsList];
+      const allowFailure = named.get("allow_failure")?.value === true;
+
+      if (dryRun) {
+        const resolved = findExecutable(cmd, cwd);
+        const line = [resolved ?? cmd, ...cmdArgs].map(quoteArg).join(" ");
+        const notFound = resolved ? "" : ", not found";
+        printDryRun(`exec ${line} (in ${cwd}${notFound})`);
+        return allowFailure ? MK_NUMBER(0) : MK_NIL();
+      }
 
-      const result = cp.spawnSync(cmd, cmdArgs, {
-        stdio: "inherit",
-        shell: false,
-        cwd,
-      });
+      if (signal?.aborted) {
+        throw new CancelledError(cmd);
+      }
 
-      if (result.error) {
-        throw new RuntimeError(
-          `Failed to execute '${cmd}': ${result.error.message}`,
-        );
+      // tools arrive here with their full path
+      const label = [path.basename(cmd), ...cmdArgs].map(quoteArg).join(" ");
+      const argv = [findExecutable(cmd, cwd) ?? cmd, ...cmdArgs];
+      const task = runningTask();
+      const started = performance.now();
+      const commandLine = [cmd, ...cmdArgs].map(quoteArg).join(" ");
+      let exitCode: number | null = null;
+      let failure: CommandFailure | null = null;
+
+      events.emit("exec-start", { task, argv, cwd });
+      try {
+        failure = await timeCommand(label, async () => {
+          const output = currentOutput();
+          const child = cp.spawn(cmd, cmdArgs, {
+            signal,
+            // tasks running in parallel can't share the terminal
+            stdio: output.inherit
+              ? ["inherit", humanOutput(), "inherit"]
+              : ["ignore", "pipe", "pipe"],
+            shell: false,
+            cwd,
+          });
+
+          child.stdout?.setEncoding("utf8").on("data", (text: string) => {
+            output.stdout(text);
+          });
+          child.stderr?.setEncoding("utf8").on("data", (text: string) => {
+            output.stderr(text);
+          });
+
+          return await new Promise<CommandFailure | null>((resolve, reject) => {
+            child.on("error", (err) => {
+              if (err.name === "AbortError") {
+                reject(new CancelledError(cmd));
+              } else {
+                resolve({
+                  message: `Failed to execute '${cmd}': ${err.message}`,
+                  status: 127,
+                });
+              }
+            });
+            child.on("close", (code, signal) => {
+              // it never started, the error above has it covered
+              if (child.pid === undefined) return;
+
+              if (signal) {
+                resolve({
+                  message: `Command '${cmd}' was killed by ${signal}`,
+                  status: 128 + (os.constants.signals[signal] ?? 0),
+                });
+                return;
+              }
+
+              exitCode = code;
+              resolve(
+                code === 0
+                  ? null
+                  : {
+                      message: `Command '${cmd}' failed with exit code ${code}`,
+                      status: code ?? 1,
+                    },
+              );
+            });
+          });
+        });
+      } finally {
+        events.emit("exec-end", {
+          task,
+          argv,
+          exitCode,
+          duration: Math.round(performance.now() - started),
+        });
       }
-      if (result.status !== 0) {
-        throw new RuntimeError(
-          `Command '${cmd}' failed with exit code ${result.status}`,
-        );
+
+      if (allowFailure) return MK_NUMBER(failure?.status ?? 0);
+      if (failure) {
+        throw new CommandError(failure.message, commandLine, exitCode);
       }
 
       return MK_NIL();
@@ -241,3 +428,47 @@ export function createGlobalEnv(cwd: string): Environment {
 
   return env;
 }
+
+// why a command failed, with the exit status a shell would report for it
+interface CommandFailure {
+  message: string;
+  status: number;
+}
+
+function printDryRun(text: string) {
+  const label = process.stdout.isTTY ? chalk.dim("[dry-run]") : "[dry-run]";
+  currentOutput().stdout(`${label} ${text}\n`);
+}
+
+// wraps an argument in quotes if it wouldn't read as one word otherwise
+function quoteArg(arg: string): string {
+  if (arg !== "" && /^[\w@%+=:,./\\-]+$/.test(arg)) return arg;
+  return `"${arg.replace(/(["\\$`])/g, "\\$1")}"`;
+}
+
+// the file that running `cmd` would start, the way spawn looks it up
+function findExecutable(cmd: string, cwd: string): string | null {
+  const isWindows = os.platform() === "win32";
+  const extensions = isWindows
+    ? ["", ...(process.env.PATHEXT ?? ".EXE;.CMD;.BAT").split(";")]
+    : [""];
+
+  const dirs = /[\\/]/.test(cmd)
+    ? [cwd]
+    : (process.env.PATH ?? "").split(path.delimiter).filter(Boolean);
+
+  for (const dir of dirs) {
+    for (const ext of extensions) {
+      const candidate = path.resolve(dir, cmd + ext);
+      try {
+        if (!fs.statSync(candidate).isFile()) continue;
+        if (!isWindows) fs.accessSync(candidate, fs.constants.X_OK);
+        return candidate;
+      } catch {
+        // not here
+      }
+    }
+  }
+
+  return null;
+}
@@ -1,16 +1,52 @@
+import type { Span } from "./ast.js";
+import type { Diagnostic } from "./diagnostics.js";
+
 // for errors during code execution (eg. running a task)
 export class RuntimeError extends Error {
+  // filled in by the interpreter as the error propagates
+  public span?: Span; // the innermost node that failed
+  public taskChain?: string[]; // eg. ["default", "start", "build"]
+
   constructor(message: string) {
     super(`${message}`);
     this.name = "RuntimeError";
   }
 }
 
+// for a command run by exec that failed or couldn't be started
+export class CommandError extends RuntimeError {
+  public command: string; // eg. docker rm app
+  public exitCode: number | null; // null if it didn't get to exit
+
+  constructor(message: string, command: string, exitCode: number | null) {
+    super(message);
+    this.command = command;
+    this.exitCode = exitCode;
+  }
+}
+
+// for a command that was stopped because the build was cancelled (eg. a
+// file changed in watch mode). try/catch lets it through
+export class CancelledError extends RuntimeError {
+  constructor(command: string) {
+    super(`Command '${command}' was cancelled`);
+  }
+}
+
 // for errors during parsing or lexing
 export class SyntaxError extends Error {
+  public reason: string; // the message without the location
+  public line: number;
+  public col: number;
+  public file?: string; // set by whoever knows which file was being parsed
+  public diagnostics?: Diagnostic[]; // every problem found in the same parse
+
   constructor(message: string, ln: number, col: number) {
     super(`${message} at line ${ln}, col ${col}`);
     this.name = "SyntaxError";
+    this.reason = message;
+    this.line = ln;
+    this.col = col;
   }
 }
 
@@ -0,0 +1,128 @@
+import * as path from "node:path";
+import { RuntimeError, SyntaxError } from "./errors.js";
+import type { TaskStatus } from "./timings.js";
+
+// what happens during a run, as reported to --reporter. `task` is the task
+// being run at the time, null while the Buildfile loads
+
+export interface TaskStartEvent {
+  task: string;
+  reason: string | null; // why it has to run, null if it has no inputs
+}
+
+export interface TaskEndEvent {
+  task: string;
+  status: TaskStatus;
+  duration: number; // ms
+  error: string | null; // the message it failed with
+}
+
+// an on_failure, finally or after_all block starting, task is null for
+// after_all
+export interface HookStartEvent {
+  task: string | null;
+  hook: "on_failure" | "finally" | "after_all";
+}
+
+export interface ExecStartEvent {
+  task: string | null;
+  argv: string[]; // starting with the program that's run, fully resolved
+  cwd: string;
+}
+
+export interface ExecEndEvent {
+  task: string | null;
+  argv: string[];
+  exitCode: number | null; // null if it couldn't start or was killed
+  duration: number;
+}
+
+export interface WarnEvent {
+  task: string | null;
+  message: string;
+}
+
+// the error the run stopped on
+export interface ErrorEvent {
+  task: string | null;
+  message: string;
+  file: string | null;
+  line: number | null;
+  col: number | null;
+}
+
+export interface BuildEventMap {
+  "task-start": TaskStartEvent;
+  "task-end": TaskEndEvent;
+  "hook-start": HookStartEvent;
+  "exec-start": ExecStartEvent;
+  "exec-end": ExecEndEvent;
+  warn: WarnEvent;
+  error: ErrorEvent;
+}
+
+export type BuildEventName = keyof BuildEventMap;
+
+type Listener<K extends BuildEventName> = (event: BuildEventMap[K]) => void;
+
+// listeners are called right away, in the async context of the task that
+// emitted the event, so they can write to its output. unlike EventEmitter,
+// an "error" nobody listens to is just dropped
+export class BuildEvents {
+  private listeners = new Map<BuildEventName, Listener<any>[]>();
+
+  public on<K extends BuildEventName>(name: K, listener: Listener<K>) {
+    this.listeners.set(name, [...(this.listeners.get(name) ?? []), listener]);
+    return this;
+  }
+
+  // every event, for reporters that pass them all on
+  public onAny(listener: (name: BuildEventName, event: object) => void) {
+    for (const name of BUILD_EVENTS) {
+      this.on(name, (event) => listener(name, event));
+    }
+    return this;
+  }
+
+  public emit<K extends BuildEventName>(name: K, event: BuildEventMap[K]) {
+    for (const listener of this.listeners.get(name) ?? []) listener(event);
+  }
+}
+
+const BUILD_EVENTS: BuildEventName[] = [
+  "task-start",
+  "task-end",
+  "hook-start",
+  "exec-start",
+  "exec-end",
+  "warn",
+  "error",
+];
+
+// what reporters are told about an error the run stopped on
+export function errorEvent(err: unknown): ErrorEvent {
+  const event: ErrorEvent = {
+    task: null,
+    message: err instanceof Error ? err.message : String(err),
+    file: null,
+    line: null,
+    col: null,
+  };
+
+  if (err instanceof RuntimeError) {
+    event.task = err.taskChain?.at(-1) ?? null;
+    if (err.span) {
+      event.file = err.span.file;
+      event.line = err.span.start.line;
+      event.col = err.span.start.col;
+    }
+  } else if (err instanceof SyntaxError) {
+    event.message = err.reason;
+    event.file = err.file ?? null;
+    event.line = err.line;
+    event.col = err.col;
+  }
+
+  if (event.file) event.file = path.relative(process.cwd(), event.file);
+  return event;
+}
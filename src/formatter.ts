@@ -0,0 +1,710 @@
+import * as ast from "./ast.js";
+import { tokenize, Token, TokenType } from "./lexer.js";
+import { Parser } from "./parser.js";
+
+const INDENT = "    ";
+
+type Pos = { line: number; col: number };
+
+// binding strength of each expression, higher binds tighter
+const PRECEDENCE: Record<string, number> = {
+  "||": 2,
+  "&&": 3,
+  "==": 4,
+  "!=": 4,
+  "<": 5,
+  ">": 5,
+  "<=": 5,
+  ">=": 5,
+  "+": 6,
+  "-": 6,
+  "*": 7,
+  "/": 7,
+  "%": 7,
+};
+
+function before(a: Pos, b: Pos): boolean {
+  return a.line < b.line || (a.line === b.line && a.col < b.col);
+}
+
+// a double-quoted string literal that evaluates to `value`
+function quote(value: string): string {
+  const escaped = value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\$/g, "\\$")
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "\\r")
+    .replace(/\t/g, "\\t");
+  return `"${escaped}"`;
+}
+
+// formats a Buildfile, throwing a SyntaxError if it doesn't parse. the output
+// is stable: formatting it again gives the same text
+export function format(src: string, file: string = "<input>"): string {
+  return new Formatter(src, file).format();
+}
+
+class Formatter {
+  private tokens: Token[];
+  private comments: Token[] = [];
+  private printed = new Set<Token>();
+  private program: ast.Program;
+  private lines: string[] = [];
+  private lineOffsets: number[] = [0];
+
+  constructor(
+    private src: string,
+    file: string,
+  ) {
+    this.tokens = tokenize(src, 1, 1, this.comments);
+    this.program = new Parser().produceAST(this.tokens, file);
+
+    for (let i = 0; i < src.length; i++) {
+      if (src.charCodeAt(i) === 10) this.lineOffsets.push(i + 1);
+    }
+  }
+
+  public format(): string {
+    const eof = this.tokens[this.tokens.length - 1];
+    this.printBody(this.program.body, 0, { line: eof.line, col: eof.col });
+    return this.lines.length > 0 ? this.lines.join("\n") + "\n" : "";
+  }
+
+  // source helpers
+
+  private source(span: ast.Span): string {
+    const start = this.lineOffsets[span.start.line - 1] + span.start.col - 1;
+    const end = this.lineOffsets[span.end.line - 1] + span.end.col - 1;
+    return this.src.slice(start, end);
+  }
+
+  private tokenIndexAt(pos: Pos): number {
+    return this.tokens.findIndex((tk) => !before(tk, pos));
+  }
+
+  // the first '{' at or after `pos` and its matching '}'
+  private braces(pos: Pos): { open: Token; close: Token } {
+    let i = this.tokenIndexAt(pos);
+    while (this.tokens[i].type !== TokenType.OBrace) i++;
+    const open = this.tokens[i];
+
+    let depth = 0;
+    for (; i < this.tokens.length; i++) {
+      const tk = this.tokens[i];
+      if (tk.type === TokenType.OBrace) depth++;
+      if (tk.type === TokenType.CBrace && --depth === 0) {
+        return { open, close: tk };
+      }
+    }
+
+    throw new Error("Unbalanced braces in a parsed Buildfile");
+  }
+
+  private tokenAfter(tk: Token): Token {
+    return this.tokens[this.tokens.indexOf(tk) + 1];
+  }
+
+  // output helpers
+
+  private emit(depth: number, text: string) {
+    this.lines.push(text === "" ? "" : INDENT.repeat(depth) + text);
+  }
+
+  private blankLine() {
+    if (this.lines.length > 0 && this.lines[this.lines.length - 1] !== "") {
+      this.lines.push("");
+    }
+  }
+
+  // comments that haven't been printed yet and start before `end`. comments
+  // inside a multi-line expression are picked up by whatever follows it
+  private pendingComments(end: Pos): Token[] {
+    return this.comments.filter((c) => !this.printed.has(c) && before(c, end));
+  }
+
+  // comments that haven't been printed yet, from `start` up to `end`
+  private commentsBetween(start: Pos, end: Pos): Token[] {
+    return this.pendingComments(end).filter((c) => !before(c, start));
+  }
+
+  // the comment on the line where `after` is and following it, if it comes
+  // before `end`. after a one-line block, `end` keeps the comment from being
+  // taken by what's inside the block
+  private trailingComment(after: Pos, end: Pos): Token | undefined {
+    return this.commentsBetween(after, end).find((c) => c.line === after.line);
+  }
+
+  // a comment sharing its line with the code before it stays on that line
+  private printTrailingComment(after: Pos, end: Pos) {
+    const comment = this.trailingComment(after, end);
+    if (!comment) return;
+
+    this.printed.add(comment);
+    this.lines[this.lines.length - 1] += " " + comment.value;
+  }
+
+  // statements
+
+  // `end` is where the enclosing block closes, comments before it belong here
+  private printBody(body: ast.Stmt[], depth: number, end: Pos) {
+    let lastLine = -1;
+    let lastStmt: ast.Stmt | null = null;
+
+    // keep one blank line where the author had any
+    const separate = (line: number, forced: boolean) => {
+      if (lastLine !== -1 && (line > lastLine + 1 || forced)) {
+        this.blankLine();
+      }
+    };
+
+    const printComments = (until: Pos, forced: boolean) => {
+      for (const comment of this.pendingComments(until)) {
+        separate(comment.line, forced);
+        forced = false;
+        this.printed.add(comment);
+        this.emit(depth, comment.value);
+        lastLine = comment.line;
+      }
+      return forced;
+    };
+
+    for (const stmt of body) {
+      // multi-line declarations at the top level always get a blank line
+      // around them, above the comments leading up to them
+      const spaced =
+        depth === 0 &&
+        lastStmt !== null &&
+        (this.isBlockDecl(stmt) || this.isBlockDecl(lastStmt));
+
+      separate(stmt.span.start.line, printComments(stmt.span.start, spaced));
+
+      this.printStmt(stmt, depth);
+      this.printTrailingComment(stmt.span.end, end);
+
+      lastLine = stmt.span.end.line;
+      lastStmt = stmt;
+    }
+
+    printComments(end, false);
+  }
+
+  // whether `stmt` is a declaration that will be printed over several lines
+  private isBlockDecl(stmt: ast.Stmt): boolean {
+    let items: unknown[];
+    switch (stmt.kind) {
+      case "TaskDeclaration": {
+        const node = stmt as ast.TaskDeclaration;
+        items = [...node.properties, ...node.body, ...node.hooks];
+        break;
+      }
+      case "AfterAllBlock":
+        items = (stmt as ast.AfterAllBlock).body;
+        break;
+      case "FunctionDeclaration":
+        items = (stmt as ast.FunctionDeclaration).body;
+        break;
+      case "IfStatement": {
+        const node = stmt as ast.IfStatement;
+        if (node.elseBody) return true;
+        items = node.body;
+        break;
+      }
+      case "ToolDeclaration":
+        items = (stmt as ast.ToolDeclaration).options;
+        break;
+      default:
+        return false;
+    }
+
+    return (
+      items.length > 0 ||
+      this.comments.some(
+        (c) => before(stmt.span.start, c) && before(c, stmt.span.end),
+      )
+    );
+  }
+
+  // prints `header {`, the body and the closing '}', returning the '}' token.
+  // an empty block is printed as `header {}` unless something follows its '}'
+  private printBlock(
+    header: string,
+    body: ast.Stmt[],
+    depth: number,
+    from: Pos,
+    compact = true,
+  ): Token {
+    const { open, close } = this.braces(from);
+
+    const hasComments = this.pendingComments(close).some((c) =>
+      before(open, c),
+    );
+    if (compact && body.length === 0 && !hasComments) {
+      this.emit(depth, `${header} {}`);
+      return close;
+    }
+
+    this.emit(depth, `${header} {`);
+    this.printTrailingComment(open, close);
+    this.printBody(body, depth + 1, close);
+    this.emit(depth, "}");
+    return close;
+  }
+
+  private printStmt(stmt: ast.Stmt, depth: number) {
+    switch (stmt.kind) {
+      case "VarDeclaration": {
+        const node = stmt as ast.VarDeclaration;
+        const prefix = node.isConst
+          ? node.isEnv
+            ? "const env"
+            : "const"
+          : node.isEnv
+            ? "env"
+            : "let";
+        this.emit(
+          depth,
+          `${prefix} ${node.identifier} = ${this.expr(node.value, depth)}`,
+        );
+        return;
+      }
+
+      case "OptionDeclaration": {
+        const node = stmt as ast.OptionDeclaration;
+        const type = node.choices?.map(quote).join(" | ") ?? node.valueType;
+        this.emit(
+          depth,
+          `option ${node.symbol}: ${type} = ${this.expr(node.defaultValue, depth)}`,
+        );
+        return;
+      }
+
+      case "ImportDeclaration": {
+        const node = stmt as ast.ImportDeclaration;
+        const alias = node.alias ? ` as ${node.alias}` : "";
+        this.emit(depth, `import ${quote(node.path)}${alias}`);
+        return;
+      }
+
+      case "TaskDeclaration": {
+        const node = stmt as ast.TaskDeclaration;
+        let header = `task ${node.symbol}`;
+        if (node.parameters.length > 0) {
+          const params = node.parameters.map((p) =>
+            p.defaultValue
+              ? `${p.name} = ${this.expr(p.defaultValue, depth)}`
+              : p.name,
+          );
+          header += `(${params.join(", ")})`;
+        }
+
+        const deps = node.dependencies.map((d) =>
+          d.args.length > 0
+            ? `${d.name}(${d.args.map((a) => this.expr(a, depth)).join(", ")})`
+            : d.name,
+        );
+        if (deps.length === 1) {
+          header += ` depends ${deps[0]}`;
+        } else if (deps.length > 1) {
+          header += ` depends (${deps.join(", ")})`;
+        }
+
+        // the body's '{' comes after any object literal in the header
+        const lastDefault = node.parameters
+          .map((p) => p.defaultValue)
+          .filter((d) => d !== null)
+          .pop();
+
+        this.printBlock(
+          header,
+          [...node.properties, ...node.body, ...node.hooks],
+          depth,
+          node.dependencies.at(-1)?.span.end ??
+            lastDefault?.span.end ??
+            node.span.start,
+        );
+        return;
+      }
+
+      case "TaskHook": {
+        const node = stmt as ast.TaskHook;
+        this.printBlock(node.hook, node.body, depth, node.span.start);
+        return;
+      }
+
+      case "AfterAllBlock": {
+        const node = stmt as ast.AfterAllBlock;
+        this.printBlock("after_all", node.body, depth, node.span.start);
+        return;
+      }
+
+      case "TaskProperty": {
+        const node = stmt as ast.TaskProperty;
+        this.emit(depth, `${node.name}: ${this.expr(node.value, depth)}`);
+        return;
+      }
+
+      case "ToolDeclaration":
+        this.printTool(stmt as ast.ToolDeclaration, depth);
+        return;
+
+      case "FunctionDeclaration": {
+        const node = stmt as ast.FunctionDeclaration;
+        const params = node.parameters.map((p) =>
+          p.defaultValue
+            ? `${p.name}: ${this.expr(p.defaultValue, depth)}`
+            : p.name,
+        );
+
+        // the body's '{' comes after any object literal used as a default
+        const lastDefault = node.parameters
+          .map((p) => p.defaultValue)
+          .filter((d) => d !== null)
+          .pop();
+
+        this.printBlock(
+          `fn ${node.symbol}(${params.join(", ")})`,
+          node.body,
+          depth,
+          lastDefault ? lastDefault.span.end : node.span.start,
+        );
+        return;
+      }
+
+      case "IfStatement":
+        this.printIf(stmt as ast.IfStatement, depth, "if");
+        return;
+
+      case "PlatformBlock": {
+        const node = stmt as ast.PlatformBlock;
+        const close = this.printBlock(
+          `${node.type} ${node.symbol}`,
+          node.body,
+          depth,
+          node.span.start,
+          !node.elseBody,
+        );
+        if (node.elseBody) {
+          this.printElse(node.elseBody, depth, close);
+        }
+        return;
+      }
+
+      case "WhileStatement": {
+        const node = stmt as ast.WhileStatement;
+        this.printBlock(
+          `while (${this.expr(node.condition, depth)})`,
+          node.body,
+          depth,
+          node.condition.span.end,
+        );
+        return;
+      }
+
+      case "ForInStatement": {
+        const node = stmt as ast.ForInStatement;
+        this.printBlock(
+          `for (${node.variable} in ${this.expr(node.iterable, depth)})`,
+          node.body,
+          depth,
+          node.iterable.span.end,
+        );
+        return;
+      }
+
+      case "BreakStatement":
+        this.emit(depth, "break");
+        return;
+
+      case "ContinueStatement":
+        this.emit(depth, "continue");
+        return;
+
+      case "TryStatement": {
+        const node = stmt as ast.TryStatement;
+        const close = this.printBlock(
+          "try",
+          node.body,
+          depth,
+          node.span.start,
+          false,
+        );
+
+        // '} catch' goes on one line, like '} else'
+        const catchToken = this.tokenAfter(close);
+        this.lines.pop();
+
+        const param = node.param ? ` (${node.param})` : "";
+        this.printBlock(`} catch${param}`, node.handler, depth, catchToken);
+        return;
+      }
+
+      case "ReturnStatement": {
+        const node = stmt as ast.ReturnStatement;
+        this.emit(
+          depth,
+          node.value ? `return ${this.expr(node.value, depth)}` : "return",
+        );
+        return;
+      }
+
+      default:
+        this.emit(depth, this.expr(stmt, depth));
+    }
+  }
+
+  private printIf(node: ast.IfStatement, depth: number, keyword: string) {
+    const close = this.printBlock(
+      `${keyword} (${this.expr(node.condition, depth)})`,
+      node.body,
+      depth,
+      node.condition.span.end,
+      !node.elseBody,
+    );
+
+    if (node.elseBody) {
+      this.printElse(node.elseBody, depth, close);
+    }
+  }
+
+  // `close` is the '}' ending the block before the else
+  private printElse(elseBody: ast.Stmt[], depth: number, close: Token) {
+    const elseToken = this.tokenAfter(close);
+
+    // '} else' goes on one line, so the '}' just printed is taken back
+    this.lines.pop();
+
+    if (this.tokenAfter(elseToken).type === TokenType.If) {
+      this.printIf(elseBody[0] as ast.IfStatement, depth, "} else if");
+    } else {
+      this.printBlock("} else", elseBody, depth, elseToken);
+    }
+  }
+
+  private printTool(node: ast.ToolDeclaration, depth: number) {
+    const { open, close } = this.braces(node.span.start);
+
+    const keys = node.options.map((opt) =>
+      opt.arch ? `[${opt.platform}, ${opt.arch}]:` : `${opt.platform}:`,
+    );
+    const width = Math.max(...keys.map((k) => k.length));
+
+    if (!this.isBlockDecl(node)) {
+      this.emit(depth, `tool ${node.symbol} {}`);
+      return;
+    }
+
+    this.emit(depth, `tool ${node.symbol} {`);
+    this.printTrailingComment(open, close);
+
+    let lastLine = -1;
+    node.options.forEach((opt, i) => {
+      const start = { line: opt.expr.span.start.line, col: 1 };
+      for (const comment of this.pendingComments(start)) {
+        if (lastLine !== -1 && comment.line > lastLine + 1) this.blankLine();
+        this.printed.add(comment);
+        this.emit(depth + 1, comment.value);
+        lastLine = comment.line;
+      }
+
+      if (lastLine !== -1 && start.line > lastLine + 1) this.blankLine();
+      this.emit(
+        depth + 1,
+        `${keys[i].padEnd(width)} ${this.expr(opt.expr, depth + 1)}`,
+      );
+      this.printTrailingComment(opt.expr.span.end, close);
+      lastLine = opt.expr.span.end.line;
+    });
+
+    for (const comment of this.pendingComments(close)) {
+      this.printed.add(comment);
+      this.emit(depth + 1, comment.value);
+    }
+
+    this.emit(depth, "}");
+  }
+
+  // expressions
+
+  private precedence(expr: ast.Expr): number {
+    switch (expr.kind) {
+      case "AssignmentExpr":
+        return 1;
+      case "BinaryExpr":
+      case "LogicalExpr":
+        return PRECEDENCE[(expr as ast.BinaryExpr).operator];
+      case "UnaryExpr":
+        return 8;
+      default:
+        return 9;
+    }
+  }
+
+  // prints `expr`, parenthesized if it binds looser than `min`
+  private operand(expr: ast.Expr, depth: number, min: number): string {
+    const text = this.expr(expr, depth);
+    return this.precedence(expr) < min ? `(${text})` : text;
+  }
+
+  private expr(expr: ast.Expr, depth: number): string {
+    switch (expr.kind) {
+      case "Identifier":
+        return (expr as ast.Identifier).symbol;
+
+      case "BooleanLiteral":
+        return String((expr as ast.BooleanLiteral).value);
+
+      case "NumericLiteral":
+      case "TemplateLiteral":
+        return this.source(expr.span);
+
+      case "StringLiteral": {
+        // raw and double-quoted strings are kept as written
+        const text = this.source(expr.span);
+        return text.startsWith("'")
+          ? quote((expr as ast.StringLiteral).value)
+          : text;
+      }
+
+      case "AssignmentExpr": {
+        const node = expr as ast.AssignmentExpr;
+        return `${this.operand(node.assignee, depth, 2)} = ${this.operand(node.value, depth, 1)}`;
+      }
+
+      case "BinaryExpr":
+      case "LogicalExpr": {
+        const node = expr as ast.BinaryExpr;
+        const prec = PRECEDENCE[node.operator];
+        const left = this.operand(node.left, depth, prec);
+        const right = this.operand(node.right, depth, prec + 1);
+        return `${left} ${node.operator} ${right}`;
+      }
+
+      case "UnaryExpr": {
+        const node = expr as ast.UnaryExpr;
+        // -(-x) rather than --x
+        const nested =
+          node.operator === "-" &&
+          node.argument.kind === "UnaryExpr" &&
+          (node.argument as ast.UnaryExpr).operator === "-";
+        return (
+          node.operator + this.operand(node.argument, depth, nested ? 9 : 8)
+        );
+      }
+
+      case "CallExpr": {
+        const node = expr as ast.CallExpr;
+        const callee = this.operand(node.callee, depth, 9);
+        return (
+          callee + this.list("(", ")", node.args, node.callee, node, depth)
+        );
+      }
+
+      case "MemberExpr": {
+        const node = expr as ast.MemberExpr;
+        const object = this.operand(node.object, depth, 9);
+        return node.computed
+          ? `${object}[${this.expr(node.property, depth)}]`
+          : `${object}.${(node.property as ast.Identifier).symbol}`;
+      }
+
+      case "NamedArg": {
+        const node = expr as ast.NamedArg;
+        return `${node.name}: ${this.expr(node.value, depth)}`;
+      }
+
+      case "SpreadElement":
+        return "..." + this.expr((expr as ast.SpreadElement).argument, depth);
+
+      case "ArrayLiteral": {
+        const node = expr as ast.ArrayLiteral;
+        return this.list("[", "]", node.elements, node, node, depth);
+      }
+
+      case "ObjectLiteral": {
+        const node = expr as ast.ObjectLiteral;
+        if (node.properties.length === 0) return "{}";
+        return this.list("{", "}", node.properties, node, node, depth);
+      }
+
+      case "Property": {
+        const node = expr as ast.Property;
+        const quoted = /^["']/.test(this.source(node.span));
+        const key = quoted ? quote(node.key) : node.key;
+        return `${key}: ${this.expr(node.value, depth)}`;
+      }
+
+      default:
+        throw new Error(`Cannot format node of kind '${expr.kind}'`);
+    }
+  }
+
+  // arguments, array elements or object properties. they stay on one line
+  // unless the author put them on separate lines or commented them, in which
+  // case each gets its own line, ending with a comma. `opener` is the node
+  // the list starts on the same line as, and `node` the one it ends
+  private list(
+    open: string,
+    close: string,
+    items: ast.Expr[],
+    opener: ast.Expr,
+    node: ast.Expr,
+    depth: number,
+  ): string {
+    const end = node.span.end;
+
+    // comments inside an item are up to the item
+    const commented = this.commentsBetween(opener.span.start, end).some(
+      (c) =>
+        !items.some(
+          (item) => !before(c, item.span.start) && before(c, item.span.end),
+        ),
+    );
+
+    let prevLine = opener.span.start.line;
+    const multiline =
+      commented ||
+      items.some((item) => {
+        const broken = item.span.start.line > prevLine;
+        prevLine = item.span.end.line;
+        return broken;
+      });
+
+    const padded = open === "{";
+
+    if (!multiline) {
+      const inner = items.map((item) => this.expr(item, depth)).join(", ");
+      return padded ? `${open} ${inner} ${close}` : `${open}${inner}${close}`;
+    }
+
+    const indent = INDENT.repeat(depth + 1);
+    const lines: string[] = [];
+    let from = opener.span.start;
+    const printComments = (until: Pos) => {
+      for (const comment of this.commentsBetween(from, until)) {
+        this.printed.add(comment);
+        lines.push(indent + comment.value);
+      }
+    };
+
+    items.forEach((item, i) => {
+      printComments(item.span.start);
+
+      let line = indent + this.expr(item, depth + 1) + ",";
+      const comment = this.trailingComment(
+        item.span.end,
+        items[i + 1]?.span.start ?? end,
+      );
+      if (comment) {
+        this.printed.add(comment);
+        line += " " + comment.value;
+      }
+
+      lines.push(line);
+      from = item.span.end;
+    });
+    printComments(end);
+
+    return `${open}\n${lines.join("\n")}\n${INDENT.repeat(depth)}${close}`;
+  }
+}
@@ -0,0 +1,164 @@
+import * as path from "node:path";
+import type { Span } from "./ast.js";
+
+export type GraphFormat = "dot" | "mermaid" | "json";
+export const GRAPH_FORMATS: GraphFormat[] = ["dot", "mermaid", "json"];
+
+export interface GraphNode {
+  name: string; // as written on the command line, eg. docker.build
+  description: string | null;
+  tools: string[]; // tools and commands the task runs
+  span: Span | null; // null for a dependency that isn't defined
+}
+
+// `from` runs before `to`, `to` depends on it
+export interface GraphEdge {
+  from: GraphNode;
+  to: GraphNode;
+  cycle: boolean; // part of a circular dependency
+}
+
+export interface TaskGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+// flags every edge between two tasks that depend on each other, directly or
+// not, using Tarjan's strongly connected components
+export function markCycles(graph: TaskGraph) {
+  const outgoing = new Map<GraphNode, GraphNode[]>();
+  for (const { from, to } of graph.edges) {
+    outgoing.set(from, [...(outgoing.get(from) ?? []), to]);
+  }
+
+  const index = new Map<GraphNode, number>();
+  const low = new Map<GraphNode, number>();
+  const component = new Map<GraphNode, number>();
+  const stack: GraphNode[] = [];
+  let counter = 0;
+  let components = 0;
+
+  const connect = (node: GraphNode) => {
+    index.set(node, counter);
+    low.set(node, counter);
+    counter++;
+    stack.push(node);
+
+    for (const next of outgoing.get(node) ?? []) {
+      if (!index.has(next)) {
+        connect(next);
+        low.set(node, Math.min(low.get(node)!, low.get(next)!));
+      } else if (!component.has(next)) {
+        low.set(node, Math.min(low.get(node)!, index.get(next)!));
+      }
+    }
+
+    if (low.get(node) === index.get(node)) {
+      let member: GraphNode;
+      do {
+        member = stack.pop()!;
+        component.set(member, components);
+      } while (member !== node);
+      components++;
+    }
+  };
+
+  for (const node of graph.nodes) {
+    if (!index.has(node)) connect(node);
+  }
+
+  for (const edge of graph.edges) {
+    edge.cycle = component.get(edge.from) === component.get(edge.to);
+  }
+}
+
+export function formatGraph(graph: TaskGraph, format: GraphFormat): string {
+  switch (format) {
+    case "dot":
+      return toDot(graph);
+    case "mermaid":
+      return toMermaid(graph);
+    case "json":
+      return toJson(graph);
+  }
+}
+
+function toDot(graph: TaskGraph): string {
+  const quote = (text: string) => JSON.stringify(text);
+  const lines = ["digraph tasks {", "  rankdir=LR;", "  node [shape=box];"];
+
+  for (const node of graph.nodes) {
+    const attrs = [`label=${quote(nodeLabel(node, "\n"))}`];
+    if (!node.span) attrs.push("style=dashed");
+    lines.push(`  ${quote(node.name)} [${attrs.join(", ")}];`);
+  }
+
+  for (const edge of graph.edges) {
+    const attrs: string[] = [];
+    if (edge.from.tools.length > 0) {
+      attrs.push(`label=${quote(edge.from.tools.join(", "))}`);
+    }
+    if (edge.cycle) attrs.push("color=red", "penwidth=2");
+
+    const suffix = attrs.length > 0 ? ` [${attrs.join(", ")}]` : "";
+    lines.push(
+      `  ${quote(edge.from.name)} -> ${quote(edge.to.name)}${suffix};`,
+    );
+  }
+
+  lines.push("}");
+  return lines.join("\n");
+}
+
+function toMermaid(graph: TaskGraph): string {
+  // task names can hold dots, so nodes get plain ids
+  const ids = new Map(graph.nodes.map((node, i) => [node, `t${i}`]));
+  const escape = (text: string) => text.replace(/"/g, "#quot;");
+  const lines = ["graph LR"];
+
+  for (const node of graph.nodes) {
+    const label = escape(nodeLabel(node, "<br/>"));
+    lines.push(`  ${ids.get(node)}["${label}"]`);
+    if (!node.span) {
+      lines.push(`  style ${ids.get(node)} stroke-dasharray: 5 5`);
+    }
+  }
+
+  graph.edges.forEach((edge) => {
+    const tools = edge.from.tools.join(", ");
+    const arrow = tools ? `-->|"${escape(tools)}"|` : "-->";
+    lines.push(`  ${ids.get(edge.from)} ${arrow} ${ids.get(edge.to)}`);
+  });
+
+  // links are styled by their position in the list
+  graph.edges.forEach((edge, i) => {
+    if (edge.cycle) lines.push(`  linkStyle ${i} stroke:red,stroke-width:2px`);
+  });
+
+  return lines.join("\n");
+}
+
+function toJson(graph: TaskGraph): string {
+  const data = {
+    nodes: graph.nodes.map((node) => ({
+      name: node.name,
+      description: node.description,
+      tools: node.tools,
+      defined: node.span !== null,
+      file: node.span ? path.relative(process.cwd(), node.span.file) : null,
+      line: node.span?.start.line ?? null,
+    })),
+    edges: graph.edges.map((edge) => ({
+      from: edge.from.name,
+      to: edge.to.name,
+      tools: edge.from.tools,
+      cycle: edge.cycle,
+    })),
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+function nodeLabel(node: GraphNode, newline: string): string {
+  if (!node.span) return `${node.name}${newline}(not defined)`;
+  return node.name;
+}
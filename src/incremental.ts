@@ -0,0 +1,191 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { createHash } from "node:crypto";
+
+const STATE_VERSION = 1;
+
+// content hashes of a task's input files, by path relative to the project
+export type InputHashes = Record<string, string>;
+
+// what is remembered between runs, kept in .buildfile/state next to the
+// Buildfile. holds the input hashes of every task as of its last good run
+export class BuildState {
+  private file: string;
+  private tasks: Record<string, InputHashes> = {};
+  private readOnly: boolean; // changes are only kept in memory
+
+  constructor(root: string, readOnly = false) {
+    this.readOnly = readOnly;
+    this.file = path.join(root, ".buildfile", "state");
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.file, "utf8"));
+      if (data.version === STATE_VERSION) this.tasks = data.tasks;
+    } catch {
+      // missing or unreadable, so nothing has run before
+    }
+  }
+
+  public get(key: string): InputHashes | undefined {
+    return this.tasks[key];
+  }
+
+  public set(key: string, hashes: InputHashes) {
+    this.tasks[key] = hashes;
+    this.save();
+  }
+
+  public delete(key: string) {
+    if (!(key in this.tasks)) return;
+    delete this.tasks[key];
+    this.save();
+  }
+
+  private save() {
+    if (this.readOnly) return;
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(
+      this.file,
+      JSON.stringify({ version: STATE_VERSION, tasks: this.tasks }, null, 2) +
+        "\n",
+    );
+  }
+}
+
+// why the task has to run, along with the input hashes to remember once it
+// has, or a null reason if it's up to date
+export type TaskCheck =
+  { reason: string; hashes: InputHashes } | { reason: null };
+
+// whether a task has to run again. it's up to date when all of its outputs
+// are newer than all of its inputs, or else when the content of its inputs
+// is the same as on its last good run
+export function checkTask(
+  root: string,
+  inputs: string[],
+  outputs: string[],
+  previous: InputHashes | undefined,
+  force: boolean,
+): TaskCheck {
+  const missingInput = inputs.find((p) => !fs.existsSync(p));
+  const inputFiles = inputs.flatMap(listFiles);
+
+  const stale = (reason: string): TaskCheck => ({
+    reason,
+    hashes: hashFiles(root, inputFiles),
+  });
+
+  if (force) return stale("forced with --force");
+  if (missingInput)
+    return stale(`input '${relative(root, missingInput)}' does not exist`);
+
+  // a removed input leaves the outputs newer than the rest
+  if (previous) {
+    const reason = changedFileSet(
+      previous,
+      inputFiles.map((f) => relative(root, f)),
+    );
+    if (reason) return stale(reason);
+  }
+
+  let outdated: string | null = null;
+
+  if (outputs.length > 0) {
+    const missingOutput = outputs.find((p) => !fs.existsSync(p));
+    if (missingOutput) {
+      return stale(`output '${relative(root, missingOutput)}' does not exist`);
+    }
+
+    const newestInput = byMtime(inputFiles, 1);
+    const oldestOutput = byMtime(outputs.flatMap(listFiles), -1)!;
+    if (!newestInput || newestInput.mtime <= oldestOutput.mtime) {
+      return { reason: null };
+    }
+
+    outdated =
+      `input '${relative(root, newestInput.file)}' is newer than ` +
+      `output '${relative(root, oldestOutput.file)}'`;
+  }
+
+  const hashes = hashFiles(root, inputFiles);
+  if (!previous) {
+    return { reason: outdated ?? "it has not run before", hashes };
+  }
+
+  const reason = changedInput(previous, hashes);
+  return reason ? { reason, hashes } : { reason: null };
+}
+
+// how the inputs changed since the last good run, null if they didn't
+function changedInput(previous: InputHashes, current: InputHashes) {
+  for (const [file, hash] of Object.entries(current)) {
+    if (file in previous && previous[file] !== hash) {
+      return `input '${file}' changed`;
+    }
+  }
+
+  return changedFileSet(previous, Object.keys(current));
+}
+
+// which input was added or removed since the last good run, null if they're
+// the same files
+function changedFileSet(previous: InputHashes, files: string[]) {
+  const current = new Set(files);
+  for (const file of current) {
+    if (!(file in previous)) return `input '${file}' was added`;
+  }
+  for (const file of Object.keys(previous)) {
+    if (!current.has(file)) return `input '${file}' was removed`;
+  }
+  return null;
+}
+
+// the files at `target`, every file under it if it's a directory. an empty
+// directory counts as itself
+function listFiles(target: string): string[] {
+  if (!fs.existsSync(target)) return [];
+  if (!fs.statSync(target).isDirectory()) return [target];
+
+  const files = fs
+    .readdirSync(target, { recursive: true, encoding: "utf8" })
+    .map((entry) => path.join(target, entry))
+    .filter((file) => !fs.statSync(file).isDirectory());
+
+  return files.length > 0 ? files : [target];
+}
+
+// the most (1) or least (-1) recently modified of `files`
+function byMtime(files: string[], sign: 1 | -1) {
+  let result: { file: string; mtime: number } | null = null;
+
+  for (const file of files) {
+    const mtime = fs.statSync(file).mtimeMs;
+    if (!result || sign * (mtime - result.mtime) > 0) {
+      result = { file, mtime };
+    }
+  }
+
+  return result;
+}
+
+function hashFiles(root: string, files: string[]): InputHashes {
+  const hashes: InputHashes = {};
+
+  for (const file of [...new Set(files)].sort()) {
+    const hash = createHash("sha256");
+    if (fs.statSync(file).isFile()) hash.update(fs.readFileSync(file));
+    hashes[relative(root, file)] = hash.digest("hex");
+  }
+
+  return hashes;
+}
+
+// identifies a task in the state, tasks of imported files can share names
+export function stateKey(root: string, file: string, task: string): string {
+  return `${relative(root, file)}:${task}`;
+}
+
+// how paths are shown and stored, the same on every platform
+function relative(root: string, file: string): string {
+  return path.relative(root, file).split(path.sep).join("/") || ".";
+}
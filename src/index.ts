@@ -1,10 +1,40 @@
 #!/usr/bin/env node
-import { Command } from "commander";
-import { existsSync, readFileSync, statSync } from "node:fs";
+import { Command, InvalidArgumentError, OptionValues } from "commander";
+import {
+  existsSync,
+  openSync,
+  readFileSync,
+  statSync,
+  writeFileSync,
+  writeSync,
+} from "node:fs";
 import { tokenize } from "./lexer.js";
 import { Parser } from "./parser.js";
 import { createGlobalEnv } from "./environment.js";
-import { Engine } from "./interpreter.js";
+import { Engine, TaskInfo } from "./interpreter.js";
+import { codeFrame, sliceSpan } from "./codeframe.js";
+import { checkBuildfile, RULES } from "./checker.js";
+import { format } from "./formatter.js";
+import { watchBuild } from "./watch.js";
+import { GRAPH_FORMATS, formatGraph } from "./graph.js";
+import { BuildEvents, errorEvent } from "./events.js";
+import { REPORTERS, humanReporter, jsonReporter } from "./reporters.js";
+import { humanOutput, setHumanOutput } from "./output.js";
+import {
+  ArtifactCache,
+  DEFAULT_CACHE_SIZE,
+  defaultCacheDir,
+  formatSize,
+  parseSize,
+} from "./cache.js";
+import { startLanguageServer } from "./lsp.js";
+import {
+  Diagnostic,
+  Severity,
+  fromSyntaxError,
+  toSarif,
+} from "./diagnostics.js";
+import { OptionDeclaration, Program, Span, TaskDeclaration } from "./ast.js";
 import { findPackageJSON } from "node:module";
 import * as path from "node:path";
 import chalk from "chalk";
@@ -27,83 +57,783 @@ try {
 
 const program = new Command();
 
+// what the reporters chosen with --reporter listen to
+const events = new BuildEvents();
+
+// everything after `--` is left to the Buildfile as `argv`
+const separator = process.argv.indexOf("--");
+const passthroughArgs =
+  separator === -1 ? [] : process.argv.slice(separator + 1);
+
 program
   .name(programData.name)
   .description(programData.description)
   .version(programData.version)
-  .argument("[task]", "The task to run", "default")
+  .argument(
+    "[tasks...]",
+    "The tasks to run, in order, each followed by its arguments (name=value or --name value)",
+    ["default"],
+  )
+  // the options of the Buildfile and of task parameters, see Engine.taskArgs
+  .allowUnknownOption()
   .option("-f, --file <path>", "Path to the Buildfile")
-  .action((task, options) => {
-    let targetFile: string;
-    if (options.file) {
-      targetFile = path.resolve(process.cwd(), options.file);
-      if (!existsSync(targetFile) || !statSync(targetFile).isFile()) {
-        console.error(
-          chalk.red.bold("Error:") +
-            " " +
-            chalk.white(`No ${options.file} found at ${targetFile}.`),
-        );
-        process.exit(1);
+  .option(
+    "-D, --define <name=value>",
+    "Set an option of the Buildfile, can be repeated",
+    parseDefine,
+    new Map<string, string>(),
+  )
+  .option(
+    "-j, --jobs <n>",
+    "Number of tasks to run at the same time",
+    parseJobs,
+    1,
+  )
+  .option(
+    "--output <mode>",
+    "How parallel task output is shown: prefix or buffer",
+    "prefix",
+  )
+  .option("-B, --force", "Run tasks even if they're up to date")
+  .option("--explain", "Show why each task with inputs had to run")
+  .option(
+    "-n, --dry-run",
+    "Print the commands and file changes instead of running them",
+  )
+  .option("--no-cache", "Don't restore or save task outputs in the cache")
+  .option("--cache-dir <dir>", "Where task outputs are cached")
+  .option("--cache-size <size>", "Largest size of the cache, like 500MB")
+  .option("-w, --watch", "Run the task again whenever its files change")
+  .option("--timings", "Print how long each task took once the build ends")
+  .option(
+    "--trace <file>",
+    "Write a Chrome trace of the build, for chrome://tracing or Perfetto",
+  )
+  .option(
+    "-l, --list",
+    "List the tasks of the Buildfile instead of running one",
+  )
+  .option("--json", "With --list, print the tasks as JSON")
+  .option(
+    "--graph",
+    "Print the dependency graph of the tasks (or all of them) instead of running them",
+  )
+  .option(
+    "--graph-format <format>",
+    "With --graph: dot, mermaid or json",
+    "dot",
+  )
+  .option(
+    "--reporter <name>",
+    "How the run is reported: human, or json events with the rest on stderr",
+    "human",
+  )
+  .option(
+    "--report-file <file>",
+    "With --reporter json, write the events to a file instead of stdout",
+  )
+  .action(async (tasks: string[], options, cmd: Command) => {
+    if (!["prefix", "buffer"].includes(options.output)) {
+      handleFatal(new Error(`Unknown output mode '${options.output}'`));
+    }
+    if (!GRAPH_FORMATS.includes(options.graphFormat)) {
+      handleFatal(new Error(`Unknown graph format '${options.graphFormat}'`));
+    }
+    if (!REPORTERS.includes(options.reporter)) {
+      handleFatal(new Error(`Unknown reporter '${options.reporter}'`));
+    }
+
+    const targetFile = resolveBuildfile(options.file);
+    setupReporters(options);
+
+    if (options.list) {
+      try {
+        const engine = await loadBuildfile(targetFile, tasks, options);
+        printTasks(engine.listTasks(), options.json);
+      } catch (e) {
+        handleFatal(e);
       }
-    } else {
-      const foundPath = getNearestBuildfile(process.cwd());
-      if (!foundPath) {
-        console.error(
-          chalk.red.bold("Error:") +
-            " " +
-            chalk.white(
-              `No Buildfile found in ${process.cwd()} or any parent directories.`,
-            ),
-        );
-        process.exit(1);
+      return;
+    }
+
+    if (options.graph) {
+      try {
+        const engine = await loadBuildfile(targetFile, tasks, options);
+        // without task names, the whole Buildfile
+        const named = cmd.args.length > 0 && engine.taskArgs.length > 0;
+        const graph = engine.graph(named ? engine.taskArgs : null);
+        console.log(formatGraph(graph, options.graphFormat));
+      } catch (e) {
+        handleFatal(e);
+      }
+      return;
+    }
+
+    if (options.watch) {
+      // every run starts from a freshly read Buildfile and a new engine
+      await watchBuild(tasks, async (signal, watch) => {
+        let engine: Engine;
+        try {
+          engine = await loadBuildfile(targetFile, tasks, options, signal);
+        } catch (e) {
+          reportError(e);
+          return [targetFile];
+        }
+
+        // if the files can't be listed, the run will say why
+        try {
+          watch([
+            ...engine.loadedFiles(),
+            ...(await engine.watchedFiles(engine.taskArgs)),
+          ]);
+        } catch {
+          watch(engine.loadedFiles());
+        }
+
+        try {
+          await engine.run(engine.taskArgs);
+        } catch (e) {
+          if (!signal.aborted) reportError(e);
+        } finally {
+          reportTimings(engine, options);
+        }
+
+        try {
+          return [
+            ...engine.loadedFiles(),
+            ...(await engine.watchedFiles(engine.taskArgs)),
+          ];
+        } catch (e) {
+          printError(e);
+          return engine.loadedFiles();
+        }
+      });
+    }
+
+    try {
+      const engine = await loadBuildfile(targetFile, tasks, options);
+      try {
+        await engine.run(engine.taskArgs);
+      } finally {
+        reportTimings(engine, options);
       }
-      targetFile = foundPath;
+    } catch (e) {
+      reportError(e);
+      process.exit(1);
+    }
+  });
+
+// the options and tasks of the Buildfile given with -f or the nearest one,
+// read without running it
+program.addHelpText("after", () => {
+  const given: string | undefined = program.opts().file;
+  const file = given
+    ? path.resolve(process.cwd(), given)
+    : getNearestBuildfile(process.cwd());
+  const parsed = file ? readBuildfile(file) : null;
+  if (!parsed) return "";
+
+  const displayPath = path.relative(process.cwd(), file!) || file!;
+  const options = declaredOptions(parsed);
+  const tasks = declaredTasks(parsed);
+  let help = "";
+
+  if (options.length > 0) {
+    help += `\nOptions of ${displayPath} (--name value or -D name=value):\n`;
+    help += optionLines(options, "  ").join("\n") + "\n";
+  }
+  if (tasks.length > 0) {
+    help += `\nTasks in ${displayPath}:\n`;
+    help += taskLines(tasks, "  ").join("\n") + "\n";
+  }
+  return help.trimEnd();
+});
+
+// the human reporter prints what a run always has. with --reporter json,
+// stdout is left to the events unless they go to a file
+function setupReporters(options: OptionValues) {
+  humanReporter(events, options.explain ?? false, options.dryRun ?? false);
+  if (options.reporter !== "json") return;
+
+  if (options.reportFile) {
+    let fd: number;
+    try {
+      fd = openSync(options.reportFile, "w");
+    } catch (e) {
+      handleFatal(
+        new Error(`Could not open report file: ${(e as Error).message}`),
+      );
     }
+    jsonReporter(events, (line) => writeSync(fd, line));
+  } else {
+    setHumanOutput(process.stderr);
+    jsonReporter(events, (line) => process.stdout.write(line));
+  }
+}
+
+// an error the run stopped on, for the reporters and the person reading
+function reportError(err: unknown) {
+  events.emit("error", errorEvent(err));
+  printError(err);
+}
 
+// --timings and --trace, after the tasks have run or failed
+function reportTimings(engine: Engine, options: OptionValues) {
+  if (options.timings) {
+    humanOutput().write(engine.timings.summary() + "\n");
+  }
+
+  if (options.trace) {
     try {
-      const src = readFileSync(targetFile, "utf8");
-      const targetDir = path.dirname(targetFile);
+      writeFileSync(options.trace, JSON.stringify(engine.timings.toTrace()));
+    } catch (e) {
+      printError(new Error(`Could not write trace: ${(e as Error).message}`));
+    }
+  }
+}
+
+// parses and evaluates the Buildfile, leaving the engine ready to run tasks
+async function loadBuildfile(
+  targetFile: string,
+  tasks: string[],
+  options: OptionValues,
+  signal?: AbortSignal,
+): Promise<Engine> {
+  const src = readFileSync(targetFile, "utf8");
+  const targetDir = path.dirname(targetFile);
+
+  // parse
+  let ast;
+  try {
+    const tokens = tokenize(src);
+    const parser = new Parser();
+    ast = parser.produceAST(tokens, targetFile);
+  } catch (e) {
+    if (e instanceof BuildSyntaxError && !e.file) e.file = targetFile;
+    throw e;
+  }
 
-      // parse
-      const tokens = tokenize(src);
-      const parser = new Parser();
-      const ast = parser.produceAST(tokens);
+  // engine setup
+  const env = createGlobalEnv(targetDir, {
+    dryRun: options.dryRun,
+    signal,
+    argv: passthroughArgs,
+    events,
+  });
+  const engine = new Engine(env, {
+    jobs: options.jobs,
+    output: options.output,
+    force: options.force,
+    cache: options.cache ? openCache(options) : null,
+    dryRun: options.dryRun,
+    events,
+    defines: options.define,
+    taskArgs: tasks,
+    cliFlags: flagsAmongTasks(),
+  });
 
-      // engine setup
-      const env = createGlobalEnv(targetDir);
-      const engine = new Engine(env);
+  await engine.load(ast, targetFile);
+  return engine;
+}
+
+program
+  .command("check")
+  .description("Check the Buildfile for problems without running it")
+  .option("--format <format>", "Output format: text, json or sarif", "text")
+  .option("--strict", "Fail on warnings as well as errors")
+  .action((options, cmd) => {
+    const { file } = cmd.optsWithGlobals();
+    const targetFile = resolveBuildfile(file);
+
+    if (!["text", "json", "sarif"].includes(options.format)) {
+      handleFatal(new Error(`Unknown format '${options.format}'`));
+    }
 
-      // load and run
-      engine.load(ast);
-      engine.run(task);
+    let diagnostics: Diagnostic[];
+    try {
+      diagnostics = checkBuildfile(
+        targetFile,
+        new Map(),
+        builtinFlags(),
+        builtinCommands(),
+      );
     } catch (e) {
       handleFatal(e);
     }
+
+    if (options.format === "json") {
+      console.log(JSON.stringify(diagnostics, null, 2));
+    } else if (options.format === "sarif") {
+      const tool = {
+        name: programData.name,
+        version: programData.version,
+        informationUri: "https://github.com/dev-kas/buildfile",
+        rules: RULES,
+      };
+      const sarif = toSarif(diagnostics, tool, process.cwd());
+      console.log(JSON.stringify(sarif, null, 2));
+    } else {
+      printDiagnostics(diagnostics);
+    }
+
+    const failed = diagnostics.some(
+      (d) =>
+        d.severity === "error" || (options.strict && d.severity === "warning"),
+    );
+    process.exit(failed ? 1 : 0);
+  });
+
+program
+  .command("fmt")
+  .description("Format Buildfiles in the canonical style")
+  .argument("[files...]", "Files to format (default: the Buildfile)")
+  .option("--check", "Only report files that aren't formatted, and fail if any")
+  .action((files: string[], options, cmd) => {
+    const { file } = cmd.optsWithGlobals();
+    const targets =
+      files.length > 0
+        ? files.map((f) => resolveBuildfile(f))
+        : [resolveBuildfile(file)];
+
+    let unformatted = 0;
+    for (const target of targets) {
+      const src = readFileSync(target, "utf8");
+
+      let formatted: string;
+      try {
+        formatted = format(src, target);
+      } catch (e) {
+        if (e instanceof BuildSyntaxError && !e.file) e.file = target;
+        handleFatal(e);
+      }
+
+      if (formatted === src) continue;
+      unformatted++;
+
+      const displayPath = path.relative(process.cwd(), target) || target;
+      if (options.check) {
+        console.log(`Not formatted: ${displayPath}`);
+      } else {
+        writeFileSync(target, formatted);
+        console.log(`Formatted ${displayPath}`);
+      }
+    }
+
+    process.exit(options.check && unformatted > 0 ? 1 : 0);
+  });
+
+program
+  .command("lsp")
+  .description("Start the language server for editors")
+  .option("--stdio", "Communicate over stdin and stdout (the default)")
+  .action(() => {
+    startLanguageServer(
+      process.stdin,
+      process.stdout,
+      { name: programData.name, version: programData.version },
+      builtinFlags(),
+      builtinCommands(),
+    );
+  });
+
+const cacheCommand = program
+  .command("cache")
+  .description("Inspect or clear the cache of task outputs");
+
+cacheCommand
+  .command("stats")
+  .description("Show how much the cache holds")
+  .action((options, cmd) => {
+    const cache = openCache(cmd.optsWithGlobals());
+    const stats = cache.stats();
+
+    console.log(`Cache:   ${cache.dir}`);
+    console.log(`Entries: ${stats.entries}`);
+    console.log(`Files:   ${stats.objects}`);
+    console.log(
+      `Size:    ${formatSize(stats.size)} of ${formatSize(cache.maxSize)}`,
+    );
+  });
+
+cacheCommand
+  .command("clean")
+  .description("Remove everything from the cache")
+  .action((options, cmd) => {
+    const cache = openCache(cmd.optsWithGlobals());
+    const stats = cache.clean();
+
+    console.log(
+      `Removed ${stats.entries} entries (${formatSize(stats.size)}) from ${cache.dir}`,
+    );
+  });
+
+// the cache from --cache-dir and --cache-size, or the environment
+function openCache(options: {
+  cacheDir?: string;
+  cacheSize?: string;
+}): ArtifactCache {
+  const dir = path.resolve(
+    options.cacheDir ?? process.env.BUILDFILE_CACHE_DIR ?? defaultCacheDir(),
+  );
+
+  const sizeText =
+    options.cacheSize ?? process.env.BUILDFILE_CACHE_SIZE ?? DEFAULT_CACHE_SIZE;
+  const size = parseSize(sizeText);
+  if (size === null) {
+    handleFatal(new Error(`Invalid cache size '${sizeText}'`));
+  }
+
+  return new ArtifactCache(dir, size);
+}
+
+interface ParsedBuildfile {
+  src: string;
+  program: Program;
+}
+
+// what `build --help` shows about an option
+interface OptionInfo {
+  name: string;
+  type: string; // bool, number, string or the choices: stable|beta
+  default: string; // as written
+  description: string | null;
+}
+
+// a Buildfile and its source, null if it doesn't parse
+function readBuildfile(file: string): ParsedBuildfile | null {
+  try {
+    const src = readFileSync(file, "utf8");
+    return { src, program: new Parser().produceAST(tokenize(src), file) };
+  } catch {
+    return null;
+  }
+}
+
+// the public tasks declared at the top of a Buildfile. tasks that come from
+// imports need it to be run, see --list
+function declaredTasks({ src, program }: ParsedBuildfile): TaskInfo[] {
+  return program.body
+    .filter((stmt) => stmt.kind === "TaskDeclaration")
+    .map((stmt) => stmt as TaskDeclaration)
+    .filter((task) => !task.symbol.startsWith("_"))
+    .map((task) => ({
+      name: task.symbol,
+      description: task.doc,
+      parameters: task.parameters.map((p) => ({
+        name: p.name,
+        default: p.defaultValue && sliceSpan(src, p.defaultValue.span),
+      })),
+      dependencies: task.dependencies.map((d) => d.name),
+      span: task.span,
+    }));
+}
+
+// the options declared at the top of a Buildfile
+function declaredOptions({ src, program }: ParsedBuildfile): OptionInfo[] {
+  return program.body
+    .filter((stmt) => stmt.kind === "OptionDeclaration")
+    .map((stmt) => stmt as OptionDeclaration)
+    .map((option) => ({
+      name: option.symbol,
+      type: option.choices?.join("|") ?? option.valueType,
+      default: sliceSpan(src, option.defaultValue.span),
+      description: option.doc,
+    }));
+}
+
+// a line per option: --channel <stable|beta>  Release channel  (default: "stable")
+function optionLines(options: OptionInfo[], indent: string): string[] {
+  const builtin = builtinFlags();
+  const flags = options.map((o) =>
+    // build takes --jobs for itself, leaving -D jobs=...
+    builtin.includes(o.name)
+      ? `-D ${o.name}=<${o.type}>`
+      : o.type === "bool"
+        ? `--${o.name}`
+        : `--${o.name} <${o.type}>`,
+  );
+  const width = Math.max(...flags.map((f) => f.length));
+
+  return options.map((option, i) => {
+    let line = indent + flags[i].padEnd(width);
+    if (option.description) line += "  " + option.description.split("\n")[0];
+    return `${line}  (default: ${option.default})`;
+  });
+}
+
+function printTasks(tasks: TaskInfo[], json: boolean) {
+  if (json) {
+    const data = tasks.map((t) => ({
+      name: t.name,
+      description: t.description,
+      parameters: t.parameters,
+      dependencies: t.dependencies,
+      file: path.relative(process.cwd(), t.span.file),
+      line: t.span.start.line,
+    }));
+    console.log(JSON.stringify(data, null, 2));
+    return;
+  }
+
+  if (tasks.length === 0) {
+    console.log("No tasks found.");
+    return;
+  }
+
+  for (const line of taskLines(tasks, "")) console.log(line);
+}
+
+// a line per task: its name and parameters, description and dependencies
+function taskLines(tasks: TaskInfo[], indent: string): string[] {
+  const dim = process.stdout.isTTY ? chalk.dim : (s: string) => s;
+
+  // deploy(target, region = "eu-west-1")
+  const signatures = tasks.map((task) => {
+    if (task.parameters.length === 0) return task.name;
+    const params = task.parameters.map((p) =>
+      p.default === null ? p.name : `${p.name} = ${p.default}`,
+    );
+    return `${task.name}(${params.join(", ")})`;
+  });
+  const width = Math.max(...signatures.map((s) => s.length));
+
+  return tasks.map((task, i) => {
+    // only the first line of a longer description fits
+    let line = indent + signatures[i].padEnd(width);
+    if (task.description) line += "  " + task.description.split("\n")[0];
+    if (task.dependencies.length > 0) {
+      line += "  " + dim(`(depends on ${task.dependencies.join(", ")})`);
+    }
+    return line.trimEnd();
   });
+}
+
+function printDiagnostics(diagnostics: Diagnostic[]) {
+  const useColor = process.stdout.isTTY;
+  const colors: Record<Severity, (s: string) => string> = useColor
+    ? { error: chalk.red.bold, warning: chalk.yellow.bold, info: chalk.cyan }
+    : { error: String, warning: String, info: String };
+  const dim = useColor ? chalk.dim : String;
+
+  for (const d of diagnostics) {
+    const displayPath = path.relative(process.cwd(), d.file) || d.file;
+    console.log(
+      `${displayPath}:${d.line}:${d.col} ${colors[d.severity](d.severity)} ${d.message}` +
+        (d.code ? " " + dim(`[${d.code}]`) : ""),
+    );
+  }
+
+  const count = (severity: Severity) =>
+    diagnostics.filter((d) => d.severity === severity).length;
+
+  if (diagnostics.length === 0) {
+    console.log("No problems found.");
+  } else {
+    console.log(
+      `\nFound ${count("error")} error(s), ${count("warning")} warning(s), ${count("info")} info.`,
+    );
+  }
+}
+
+function parseDefine(
+  value: string,
+  defines: Map<string, string>,
+): Map<string, string> {
+  const eq = value.indexOf("=");
+  if (eq < 1) throw new InvalidArgumentError("Must be name=value.");
+  return new Map(defines).set(value.slice(0, eq), value.slice(eq + 1));
+}
+
+function parseJobs(value: string): number {
+  const jobs = Number(value);
+  if (!Number.isInteger(jobs) || jobs < 1) {
+    throw new InvalidArgumentError("Must be a positive whole number.");
+  }
+  return jobs;
+}
+
+// the long flags of build itself, without their dashes
+function builtinFlags(): string[] {
+  return [...program.options.map((o) => o.long!.slice(2)), "help"];
+}
+
+function builtinCommands(): string[] {
+  return program.commands.map((c) => c.name());
+}
+
+// the words given to build, up to `--`
+function commandLine(): string[] {
+  return process.argv.slice(2, separator === -1 ? undefined : separator);
+}
+
+// the flag of build itself that `word` is, written as -f, --file or --file=x
+function builtinOption(word: string) {
+  const [name] = word.split("=");
+  return program.options.find((o) => o.short === name || o.long === name);
+}
+
+// where the first task or task argument is in `words`, after the flags of
+// build itself and their values
+function firstTaskWord(words: string[]): number {
+  for (let i = 0; i < words.length; i++) {
+    const option = builtinOption(words[i]);
+    if (!option) return i;
+    // its value is the next word
+    if (option.required && !words[i].includes("=")) i++;
+  }
+  return words.length;
+}
+
+// the flags of build itself written as --name after the first task or task
+// argument, where they could have been meant for a task parameter
+function flagsAmongTasks(): string[] {
+  const words = commandLine();
+  const flags: string[] = [];
+
+  for (let i = firstTaskWord(words) + 1; i < words.length; i++) {
+    const option = builtinOption(words[i]);
+    if (!option) continue;
+
+    if (option.long && words[i].split("=")[0] === option.long) {
+      flags.push(option.long.slice(2));
+    }
+    if (option.required && !words[i].includes("=")) i++;
+  }
+
+  return flags;
+}
+
+// the command asked for, like fmt, when the Buildfile declares a task of
+// the same name. the task runs instead, see the builtin-command check
+function commandTakenByTask(): Command | null {
+  const words = commandLine();
+  const first = firstTaskWord(words);
+  const command = program.commands.find((c) => c.name() === words[first]);
+  if (!command) return null;
+
+  // the last -f before the command wins, as it does for commander
+  let given: string | undefined;
+  for (let i = 0; i < first; i++) {
+    const option = builtinOption(words[i]);
+    const inline = words[i].includes("=");
+    if (option?.long === "--file") {
+      given = inline ? words[i].slice(words[i].indexOf("=") + 1) : words[i + 1];
+    }
+    if (option?.required && !inline) i++;
+  }
+
+  const file = given
+    ? path.resolve(process.cwd(), given)
+    : getNearestBuildfile(process.cwd());
+  const parsed = file ? readBuildfile(file) : null;
+  if (!parsed) return null;
+
+  const declared = parsed.program.body.some(
+    (stmt) =>
+      stmt.kind === "TaskDeclaration" &&
+      (stmt as TaskDeclaration).symbol === command.name(),
+  );
+  return declared ? command : null;
+}
+
+// the Buildfile passed with -f, or the nearest one up from the current directory
+function resolveBuildfile(file?: string): string {
+  if (file) {
+    const targetFile = path.resolve(process.cwd(), file);
+    if (!existsSync(targetFile) || !statSync(targetFile).isFile()) {
+      // likely meant for a task parameter, see Engine.lookupTasks
+      const hint = flagsAmongTasks().includes("file")
+        ? " --file is a flag of build itself, write file=<value> to give it to a task."
+        : "";
+      console.error(
+        chalk.red.bold("Error:") +
+          " " +
+          chalk.white(`No ${file} found at ${targetFile}.${hint}`),
+      );
+      process.exit(1);
+    }
+    return targetFile;
+  }
+
+  const foundPath = getNearestBuildfile(process.cwd());
+  if (!foundPath) {
+    console.error(
+      chalk.red.bold("Error:") +
+        " " +
+        chalk.white(
+          `No Buildfile found in ${process.cwd()} or any parent directories.`,
+        ),
+    );
+    process.exit(1);
+  }
+  return foundPath;
+}
 
 function handleFatal(err: unknown): never {
+  printError(err);
+  process.exit(1);
+}
+
+function printError(err: unknown) {
   const useColor = process.stderr.isTTY;
 
   const red = useColor ? chalk.red : (s: string) => s;
   const boldRed = useColor ? chalk.red.bold : (s: string) => s;
   const boldYellow = useColor ? chalk.yellow.bold : (s: string) => s;
+  const dim = useColor ? chalk.dim : (s: string) => s;
   const engineTag = useColor
     ? chalk.bgRed.white.bold(" ENGINE ERROR ")
     : "ENGINE ERROR";
 
+  // "  --> file:line:col" followed by a code frame, if the file is readable
+  const printLocation = (
+    file: string,
+    start: Span["start"],
+    end?: Span["end"],
+  ) => {
+    const displayPath = path.relative(process.cwd(), file) || file;
+    console.error(dim(`  --> ${displayPath}:${start.line}:${start.col}`));
+
+    try {
+      const frame = codeFrame(readFileSync(file, "utf8"), start, end);
+      console.error("\n" + frame.replace(/\^+/, (m) => red(m)) + "\n");
+    } catch {
+      // the location alone is still useful
+    }
+  };
+
   if (err instanceof EngineError) {
     console.error(engineTag + "\n" + red(err.stack || err.message));
   } else if (err instanceof RuntimeError) {
     console.error(boldRed("Runtime Error:") + " " + err.message);
+    if (err.taskChain && err.taskChain.length > 0) {
+      console.error(dim(`  in task: ${err.taskChain.join(" -> ")}`));
+    }
+    if (err.span) {
+      printLocation(err.span.file, err.span.start, err.span.end);
+    }
   } else if (err instanceof BuildSyntaxError) {
-    console.error(boldYellow("Syntax Error:") + " " + err.message);
+    // the parser reports every error it recovered from, the lexer only one
+    const diagnostics = err.diagnostics ?? [
+      fromSyntaxError(err, err.file ?? ""),
+    ];
+
+    for (const d of diagnostics) {
+      const label = d.severity === "error" ? "Syntax Error:" : "Warning:";
+      console.error(boldYellow(label) + " " + d.message);
+      if (d.file) {
+        printLocation(d.file, { line: d.line, col: d.col });
+      }
+    }
+
+    if (diagnostics.length > 1) {
+      console.error(boldYellow(`Found ${diagnostics.length} problems.`));
+    }
   } else if (err instanceof Error) {
     console.error(boldRed("Error:") + " " + err.message);
   } else {
     console.error(boldRed("Unknown fatal error:") + " " + String(err));
   }
-
-  process.exit(1);
 }
 
 function getNearestBuildfile(startDir: string): string | null {
@@ -120,4 +850,13 @@ function getNearestBuildfile(startDir: string): string | null {
   return null;
 }
 
-program.parse(process.argv);
+// without the command, its name is left to the tasks
+const taken = commandTakenByTask();
+if (taken) {
+  const commands = program.commands as Command[];
+  commands.splice(commands.indexOf(taken), 1);
+}
+
+program.parseAsync(
+  separator === -1 ? process.argv : process.argv.slice(0, separator),
+);
@@ -1,8 +1,15 @@
 import * as ast from "./ast.js";
 import Environment from "./environment.js";
-import { RuntimeError, EngineError } from "./errors.js";
+import {
+  RuntimeError,
+  CommandError,
+  CancelledError,
+  EngineError,
+  SyntaxError,
+} from "./errors.js";
 import {
   RuntimeVal,
+  ValueType,
   MK_NIL,
   MK_NUMBER,
   MK_STRING,
@@ -11,91 +18,1163 @@ import {
   MK_OBJECT,
   MK_TASK,
   MK_TOOL,
+  MK_FN,
+  ArrayVal,
+  FunctionVal,
+  frozenCopy,
+  ObjectVal,
   TaskVal,
   ToolVal,
   NativeFnValue,
+  isTruthy,
+  valuesEqual,
+  stringify,
 } from "./values.js";
+import { tokenize } from "./lexer.js";
+import { Parser } from "./parser.js";
+import { sliceSpan } from "./codeframe.js";
+import { BuildState, InputHashes, checkTask, stateKey } from "./incremental.js";
+import { ArtifactCache } from "./cache.js";
+import { GraphNode, TaskGraph, markCycles } from "./graph.js";
+import { TaskStatus, Timings } from "./timings.js";
+import { BuildEvents } from "./events.js";
+import {
+  OutputMode,
+  TaskOutput,
+  createTaskOutput,
+  humanOutput,
+  withOutput,
+} from "./output.js";
 import * as os from "node:os";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { createHash } from "node:crypto";
+import { performance } from "node:perf_hooks";
+
+// thrown by break/continue and caught by the nearest enclosing loop
+class BreakSignal {}
+class ContinueSignal {}
+
+// thrown by return and caught by the function call that is returning
+class ReturnSignal {
+  constructor(public value: RuntimeVal) {}
+}
+
+// a task that failed, as seen by the hooks that run because of it
+interface Failure {
+  error: unknown;
+  task: string | null; // null if it didn't fail in a task
+}
+
+// a task in the dependency graph of the task being run. a task run with
+// different arguments is a different node
+interface TaskNode {
+  task: TaskVal;
+  args: Map<string, RuntimeVal>; // the value of each parameter
+  label: string; // the task's name, with its arguments if it takes any
+  dependencies: TaskNode[];
+  chain: string[]; // how the root task led here, for errors
+}
+
+// a task asked for on the command line, with the text of its arguments
+interface TaskRequest {
+  task: TaskVal;
+  args: Map<string, string>;
+}
+
+// what `build --list` shows about a task
+export interface TaskInfo {
+  name: string; // as written on the command line, eg. docker.build
+  description: string | null;
+  parameters: { name: string; default: string | null }[]; // default as written
+  dependencies: string[];
+  span: ast.Span;
+}
+
+export interface EngineOptions {
+  jobs?: number; // how many tasks may run at the same time
+  output?: OutputMode; // how the output of parallel tasks is kept apart
+  force?: boolean; // run tasks even if they're up to date
+  cache?: ArtifactCache | null; // where task outputs are kept for reuse
+  dryRun?: boolean; // leave the state and the cache alone
+  events?: BuildEvents; // what reporters listen to
+  defines?: Map<string, string>; // option values from -D name=value
+  taskArgs?: string[]; // see Engine.taskArgs
+  // flags of build itself written as --name among the tasks, which never
+  // reach a task parameter or option of the same name
+  cliFlags?: string[];
+}
 
 export class Engine {
-  public env: Environment;
-  private completedTasks: Set<string>;
-  private visitingTasks: Set<string>;
+  public env: Environment; // the scope of the Buildfile
+  private builtins: Environment;
+  private jobs: number;
+  private outputMode: OutputMode;
+  private force: boolean;
+  private cache: ArtifactCache | null;
+  private dryRun: boolean;
+
+  // how long the tasks of the last run took
+  public timings = new Timings();
+  public readonly events: BuildEvents;
+
+  // the command line after build's own options. while the Buildfile loads,
+  // its options take theirs out (--release, --channel beta), leaving the
+  // tasks to run and their arguments
+  public taskArgs: string[];
+  private defines: Map<string, string>;
+  private cliFlags: Set<string>;
+
+  // the directory of the Buildfile being run, and what's known about it from
+  // earlier runs
+  private root!: string;
+  private state!: BuildState;
+
+  // absolute file path -> scope holding that file's declarations
+  private modules: Map<string, Environment>;
+  // the after_all blocks of the Buildfile and its imports, in load order
+  private afterAll: { body: ast.Stmt[]; env: Environment }[] = [];
+  private loadingModules: string[];
+
+  constructor(env: Environment, options: EngineOptions = {}) {
+    this.builtins = env;
+    this.env = new Environment(env);
+    this.jobs = options.jobs ?? 1;
+    this.outputMode = options.output ?? "prefix";
+    this.force = options.force ?? false;
+    this.cache = options.cache ?? null;
+    this.dryRun = options.dryRun ?? false;
+    this.events = options.events ?? new BuildEvents();
+    this.taskArgs = [...(options.taskArgs ?? [])];
+    this.defines = new Map(options.defines);
+    this.cliFlags = new Set(options.cliFlags);
+    this.modules = new Map();
+    this.loadingModules = [];
+  }
+
+  public async load(program: ast.Program, file: string) {
+    this.root = path.dirname(file);
+    this.state = new BuildState(this.root, this.dryRun);
+
+    this.loadingModules.push(file);
+    await this.evalModule(program, file, this.env);
+    this.loadingModules.pop();
+    this.modules.set(file, this.env);
+
+    // the options that were found took their values out of defines
+    for (const name of this.defines.keys()) {
+      throw new RuntimeError(
+        `Unknown option '${name}' in -D ${name}=${this.defines.get(name)}.`,
+      );
+    }
+  }
+
+  // runs the tasks in the order given, each task at most once even if
+  // several of them depend on it. `taskArgs` is what the command line
+  // holds: task names, each followed by its arguments
+  public async run(taskArgs: string[]) {
+    this.timings = new Timings();
+    const nodes = await this.buildGraph(this.lookupTasks(taskArgs));
+
+    if (this.dryRun) {
+      const order = nodes.map((n) => n.label).join(" -> ");
+      humanOutput().write(`Task order: ${order}\n`);
+    }
+
+    let failure: Failure | null = null;
+    try {
+      await this.schedule(nodes);
+    } catch (error) {
+      const chain = error instanceof RuntimeError ? error.taskChain : null;
+      failure = { error, task: chain?.at(-1) ?? null };
+    }
+
+    try {
+      for (const { body, env } of this.afterAll) {
+        this.events.emit("hook-start", { task: null, hook: "after_all" });
+        await this.runHook("after_all", null, body, env, failure);
+      }
+    } finally {
+      this.timings.finish();
+    }
+
+    if (failure) throw failure.error;
+  }
+
+  // the Buildfile and every file it imports
+  public loadedFiles(): string[] {
+    return [...this.modules.keys()];
+  }
+
+  // what `build --watch` looks at: the `watch:` paths of the tasks and their
+  // dependencies, or their inputs if they don't have any
+  public async watchedFiles(taskArgs: string[]): Promise<string[]> {
+    const files: string[] = [];
+
+    for (const node of await this.buildGraph(this.lookupTasks(taskArgs))) {
+      const { task } = node;
+      const scope = this.taskScope(node);
+      const paths =
+        (await this.evalPaths(task, "watch", scope)) ??
+        (await this.evalPaths(task, "inputs", scope));
+      files.push(...(paths ?? []));
+    }
+
+    return files;
+  }
+
+  // the tasks that can be run from the command line, in the order they were
+  // declared. the ones starting with '_' are private
+  public listTasks(): TaskInfo[] {
+    return [...this.exportedTasks()]
+      .filter(([, task]) => !task.name.startsWith("_"))
+      .map(([name, task]) => ({
+        name,
+        description: task.doc,
+        parameters: task.parameters.map((p) => ({
+          name: p.name,
+          default: p.defaultValue && this.sourceOf(p.defaultValue.span),
+        })),
+        dependencies: task.dependencies.map((d) => d.name),
+        span: task.span,
+      }));
+  }
+
+  // the tasks and what they depend on, without running anything. cycles
+  // and undefined dependencies end up in the graph instead of failing
+  public graph(taskArgs: string[] | null): TaskGraph {
+    const names = new Map<TaskVal, string>();
+    for (const [name, task] of this.exportedTasks()) names.set(task, name);
+
+    const graph: TaskGraph = { nodes: [], edges: [] };
+    const nodes = new Map<TaskVal | string, GraphNode>();
+
+    const addNode = (key: TaskVal | string, node: GraphNode) => {
+      nodes.set(key, node);
+      graph.nodes.push(node);
+      return node;
+    };
+
+    const visit = (task: TaskVal): GraphNode => {
+      const existing = nodes.get(task);
+      if (existing) return existing;
+
+      const node = addNode(task, {
+        name: names.get(task) ?? task.name,
+        description: task.doc,
+        tools: this.toolsUsedBy(task),
+        span: task.span,
+      });
+
+      for (const { name: dep } of task.dependencies) {
+        let from: GraphNode;
+        try {
+          from = visit(lookupTask(dep, task.env));
+        } catch (e) {
+          if (!(e instanceof RuntimeError)) throw e;
+          from =
+            nodes.get(dep) ??
+            addNode(dep, {
+              name: dep,
+              description: null,
+              tools: [],
+              span: null,
+            });
+        }
+        // a task can depend on another several times, with other arguments
+        if (!graph.edges.some((e) => e.from === from && e.to === node)) {
+          graph.edges.push({ from, to: node, cycle: false });
+        }
+      }
+
+      return node;
+    };
+
+    const roots = taskArgs
+      ? this.lookupTasks(taskArgs).map((r) => r.task)
+      : [...this.exportedTasks().values()];
+    roots.forEach(visit);
+
+    markCycles(graph);
+    return graph;
+  }
+
+  // every task reachable from the Buildfile by name, including the ones of
+  // imported namespaces (eg. docker.build)
+  private exportedTasks(): Map<string, TaskVal> {
+    const tasks = new Map<string, TaskVal>();
+
+    for (const [name, value] of this.env.exports()) {
+      if (value.type === "task") tasks.set(name, value as TaskVal);
+
+      if (value.type === "object") {
+        for (const [member, inner] of (value as ObjectVal).properties) {
+          if (inner.type === "task") {
+            tasks.set(`${name}.${member}`, inner as TaskVal);
+          }
+        }
+      }
+    }
+
+    return tasks;
+  }
+
+  // the tools a task calls, along with the commands it passes to exec
+  private toolsUsedBy(task: TaskVal): string[] {
+    const tools = new Set<string>();
+
+    for (const tool of this.toolValsUsedBy(task)) tools.add(tool.name);
+
+    walkNodes(taskCode(task), (node) => {
+      if (node.kind !== "CallExpr") return;
+      const { callee, args } = node as ast.CallExpr;
+      if (
+        callee.kind === "Identifier" &&
+        (callee as ast.Identifier).symbol === "exec" &&
+        args[0]?.kind === "StringLiteral"
+      ) {
+        tools.add((args[0] as ast.StringLiteral).value);
+      }
+    });
+
+    return [...tools];
+  }
+
+  private toolValsUsedBy(task: TaskVal): ToolVal[] {
+    const tools: ToolVal[] = [];
+
+    for (const name of identifiersIn(taskCode(task))) {
+      if (!task.env.hasVar(name)) continue; // declared in the body
+      const value = task.env.lookupVar(name);
+
+      // a namespace brings the tools of an imported file
+      const candidates =
+        value.type === "object"
+          ? [...(value as ObjectVal).properties.values()]
+          : [value];
+
+      for (const candidate of candidates) {
+        if (candidate.type === "tool") tools.push(candidate as ToolVal);
+      }
+    }
+
+    return tools;
+  }
+
+  // tasks asked for on the command line, each followed by its arguments:
+  // deploy target=prod --region us-east-1 --verbose lint. without a task
+  // name, or before the first one, it's the default task
+  private lookupTasks(taskArgs: string[]): TaskRequest[] {
+    const requests: TaskRequest[] = [];
+    const words =
+      taskArgs.length === 0 || isTaskArg(taskArgs[0])
+        ? ["default", ...taskArgs]
+        : taskArgs;
+
+    for (let i = 0; i < words.length; i++) {
+      const word = words[i];
+
+      if (!isTaskArg(word)) {
+        if (word.split(".").pop()!.startsWith("_")) {
+          throw new RuntimeError(
+            `Task '${word}' is private and can't be run from the command line.`,
+          );
+        }
+        requests.push({ task: lookupTask(word, this.env), args: new Map() });
+        continue;
+      }
+
+      const { task, args } = requests.at(-1)!;
+      const option = word.startsWith("--");
+      if (!option && word.startsWith("-")) {
+        throw new RuntimeError(`Unknown option '${word}'.`);
+      }
+
+      const text = option ? word.slice(2) : word;
+      const eq = text.indexOf("=");
+      const name = eq === -1 ? text : text.slice(0, eq);
+      const param = task.parameters.find((p) => p.name === name);
+
+      if (!param) {
+        const message = `Task '${task.name}' has no parameter '${name}'.`;
+        throw new RuntimeError(
+          option ? `Unknown option '${word}'. ${message}` : message,
+        );
+      }
+      if (args.has(name)) {
+        throw new RuntimeError(
+          `Parameter '${name}' of task '${task.name}' was given twice.`,
+        );
+      }
+
+      if (eq !== -1) {
+        args.set(name, text.slice(eq + 1));
+      } else if (isFlag(param)) {
+        args.set(name, "true");
+      } else if (i + 1 < words.length) {
+        args.set(name, words[++i]);
+      } else {
+        throw new RuntimeError(
+          `Option '${word}' of task '${task.name}' needs a value.`,
+        );
+      }
+    }
+
+    // eg. `build compile --file b.c`, where build took the --file
+    for (const { task, args } of requests) {
+      const shadowed = task.parameters.find(
+        (p) => this.cliFlags.has(p.name) && !args.has(p.name),
+      );
+      if (shadowed) {
+        const { name } = shadowed;
+        throw new RuntimeError(
+          `--${name} is a flag of build itself and can't set parameter '${name}' of task '${task.name}'. Write ${name}=<value> instead.`,
+        );
+      }
+    }
+
+    return requests;
+  }
+
+  // every task the roots need, each after its dependencies. this is the order
+  // they run in one at a time
+  private async buildGraph(roots: TaskRequest[]): Promise<TaskNode[]> {
+    // task -> label -> node
+    const nodes = new Map<TaskVal, Map<string, TaskNode>>();
+    const visiting = new Set<TaskVal>();
+    const order: TaskNode[] = [];
+
+    const visit = async (
+      task: TaskVal,
+      given: Map<string, RuntimeVal | string>,
+      chain: string[],
+    ): Promise<TaskNode> => {
+      let args: Map<string, RuntimeVal>;
+      try {
+        args = await this.bindParams(task, given);
+      } catch (e) {
+        if (e instanceof RuntimeError) e.taskChain ??= chain;
+        throw e;
+      }
+
+      const label = taskLabel(task, args);
+      chain = [...chain.slice(0, -1), label];
+
+      const existing = nodes.get(task)?.get(label);
+      if (existing) return existing;
+
+      if (visiting.has(task)) {
+        const err = new RuntimeError(
+          `Circular dependency detected involving task '${task.name}'`,
+        );
+        err.taskChain = chain;
+        throw err;
+      }
+
+      visiting.add(task);
+      const node: TaskNode = { task, args, label, dependencies: [], chain };
+      const scope = this.taskScope(node);
+
+      for (const dep of task.dependencies) {
+        let depTask: TaskVal;
+        let depArgs: Map<string, RuntimeVal>;
+        try {
+          depTask = lookupTask(dep.name, task.env);
+          depArgs = await dependencyArgs(dep, depTask, scope);
+        } catch (e) {
+          if (e instanceof RuntimeError) {
+            e.taskChain = chain;
+            e.span ??= dep.span;
+          }
+          throw e;
+        }
+        node.dependencies.push(
+          await visit(depTask, depArgs, [...chain, depTask.name]),
+        );
+      }
+
+      visiting.delete(task);
+      if (!nodes.has(task)) nodes.set(task, new Map());
+      nodes.get(task)!.set(label, node);
+      order.push(node);
+      return node;
+    };
+
+    for (const { task, args } of roots) {
+      await visit(task, args, [task.name]);
+    }
+    return order;
+  }
+
+  // the value of each parameter of `task`: the argument it was given, or
+  // its default, which can refer to earlier parameters. arguments from the
+  // command line are text, read as the type of the default
+  private async bindParams(
+    task: TaskVal,
+    given: Map<string, RuntimeVal | string>,
+  ): Promise<Map<string, RuntimeVal>> {
+    const scope = new Environment(task.env);
+    const args = new Map<string, RuntimeVal>();
+
+    for (const param of task.parameters) {
+      const arg = given.get(param.name);
+      let value: RuntimeVal;
+
+      if (arg === undefined) {
+        if (!param.defaultValue) {
+          const err = new RuntimeError(
+            `Missing argument '${param.name}' for task '${task.name}'.`,
+          );
+          err.span = task.span;
+          throw err;
+        }
+        value = await evaluate(param.defaultValue, scope);
+      } else if (typeof arg === "string") {
+        const fallback =
+          param.defaultValue && (await evaluate(param.defaultValue, scope));
+        value = parseCliArg(
+          arg,
+          fallback?.type,
+          `Parameter '${param.name}' of task '${task.name}'`,
+        );
+      } else {
+        value = arg;
+      }
+
+      scope.declareVar(param.name, value);
+      args.set(param.name, value);
+    }
+
+    return args;
+  }
+
+  // a new scope for a run of the task, holding its parameters
+  private taskScope(node: TaskNode): Environment {
+    const scope = new Environment(node.task.env);
+    for (const [name, value] of node.args) scope.declareVar(name, value);
+    return scope;
+  }
+
+  // the text of an expression as it's written in its file
+  private sourceOf(span: ast.Span): string {
+    return sliceSpan(fs.readFileSync(span.file, "utf8"), span);
+  }
+
+  // runs tasks as soon as their dependencies are done, up to `jobs` at a
+  // time. after a failure no new tasks are started, and the first error is
+  // thrown once the running ones have finished
+  private async schedule(nodes: TaskNode[]) {
+    const pending = [...nodes];
+    const done = new Set<TaskNode>();
+    const failed = new Map<TaskNode, Failure>();
+    const running = new Set<Promise<void>>();
+    let failure: { error: unknown } | null = null;
+
+    const parallel = this.jobs > 1 && nodes.length > 1;
+    const width = Math.max(...nodes.map((n) => n.label.length));
+
+    const start = (node: TaskNode) => {
+      pending.splice(pending.indexOf(node), 1);
+
+      const output = createTaskOutput(
+        node.label,
+        parallel ? this.outputMode : "direct",
+        width,
+      );
+
+      const job: Promise<void> = this.timings
+        .task(node.label, () => this.runTask(node, output))
+        .then(
+          () => void done.add(node),
+          (error) => {
+            failed.set(node, { error, task: node.label });
+            failure ??= { error };
+          },
+        )
+        .finally(() => running.delete(job));
+      running.add(job);
+    };
+
+    while (true) {
+      if (!failure) {
+        // earlier tasks first, so a single job keeps the serial order
+        for (const node of pending.filter((n) =>
+          n.dependencies.every((d) => done.has(d)),
+        )) {
+          if (running.size >= this.jobs) break;
+          start(node);
+        }
+      }
+
+      if (running.size === 0) break;
+      await Promise.race(running);
+    }
+
+    if (!failure) return;
+
+    // the tasks left waiting on a failed one still get to run their hooks,
+    // eg. to stop a container that a dependency started. pending is in
+    // dependency order, so the failure has reached every dependency first
+    for (const node of pending) {
+      const cause = node.dependencies.find((d) => failed.has(d));
+      if (!cause) continue;
+
+      failed.set(node, failed.get(cause)!);
+      await this.runTaskHooks(node, this.taskScope(node), failed.get(cause)!);
+    }
+
+    throw (failure as { error: unknown }).error;
+  }
+
+  private async runTask(
+    node: TaskNode,
+    output: TaskOutput,
+  ): Promise<TaskStatus> {
+    const { task, label } = node;
+    const key = stateKey(this.root, task.span.file, label);
+    const started = performance.now();
+
+    const ended = (status: TaskStatus, error: string | null = null) => {
+      this.events.emit("task-end", {
+        task: label,
+        status,
+        duration: Math.round(performance.now() - started),
+        error,
+      });
+      return status;
+    };
+
+    try {
+      const taskScope = this.taskScope(node);
+      return await withOutput(output, async () => {
+        const files = await this.taskFiles(task, taskScope);
+        const check =
+          files &&
+          checkTask(
+            this.root,
+            files.inputs,
+            files.outputs,
+            this.state.get(key),
+            this.force,
+          );
+
+        if (check?.reason === null) return ended("up to date");
+
+        // only tasks that say what they produce can be cached
+        let cacheKey: string | null = null;
+        if (check && this.cache && files.outputs.length > 0) {
+          cacheKey = await this.cacheKey(node, check.hashes, files.outputs);
+
+          // --force runs the task anyway, and only stores what it produced
+          const restored =
+            !this.force &&
+            (this.dryRun
+              ? this.cache.has(cacheKey)
+              : this.cache.restore(cacheKey, this.root, files.outputs));
+
+          if (restored) {
+            this.state.set(key, check.hashes);
+            return ended("restored");
+          }
+        }
+
+        this.events.emit("task-start", {
+          task: label,
+          reason: check?.reason ?? null,
+        });
+
+        try {
+          for (const stmt of task.body) {
+            await evaluate(stmt, taskScope);
+          }
+        } catch (error) {
+          await this.runTaskHooks(node, taskScope, { error, task: label });
+          throw error;
+        }
+        await this.runTaskHooks(node, taskScope, null);
+
+        if (check) this.state.set(key, check.hashes);
+        if (cacheKey && !this.dryRun)
+          this.cache!.store(cacheKey, this.root, files!.outputs);
+        return ended("ran");
+      });
+    } catch (e) {
+      // so that it's not taken as up to date next time
+      this.state.delete(key);
+      ended("failed", e instanceof Error ? e.message : String(e));
+
+      // the innermost task records the chain that led to it
+      if (e instanceof RuntimeError && !e.taskChain) {
+        e.taskChain = node.chain;
+      }
+      throw e;
+    } finally {
+      output.flush();
+    }
+  }
+
+  // the on_failure (if it failed) and finally blocks of a task
+  private async runTaskHooks(
+    { task, label }: TaskNode,
+    scope: Environment,
+    failure: Failure | null,
+  ) {
+    const hooks: ast.TaskHook["hook"][] = failure
+      ? ["on_failure", "finally"]
+      : ["finally"];
+
+    for (const hook of hooks) {
+      const body = task.hooks.get(hook);
+      if (!body) continue;
+
+      this.events.emit("hook-start", { task: label, hook });
+      await this.runHook(hook, label, body, scope, failure);
+    }
+  }
+
+  // runs a hook with `error` set to what failed, or nil. once something
+  // has failed, a hook failing too is only a warning: the first error is
+  // the one that's reported
+  private async runHook(
+    hook: string,
+    task: string | null,
+    body: ast.Stmt[],
+    env: Environment,
+    failure: Failure | null,
+  ) {
+    const scope = new Environment(env);
+    scope.declareVar("error", errorValue(failure), true);
+
+    try {
+      for (const stmt of body) {
+        await evaluate(stmt, scope);
+      }
+    } catch (e) {
+      if (!failure) throw e;
+
+      const where = task ? ` of task '${task}'` : "";
+      const message = e instanceof Error ? e.message : String(e);
+      this.events.emit("warn", {
+        task,
+        message: `The ${hook} block${where} failed: ${message}`,
+      });
+    }
+  }
+
+  // the task's inputs and outputs, null if it doesn't declare its inputs
+  private async taskFiles(task: TaskVal, scope: Environment) {
+    const inputs = await this.evalPaths(task, "inputs", scope);
+    if (!inputs) return null;
+
+    const outputs = await this.evalPaths(task, "outputs", scope);
+    return { inputs, outputs: outputs ?? [] };
+  }
+
+  // everything that decides what a task produces: the contents of its
+  // inputs, where its outputs go, the tools it calls, the env variables it
+  // sees, its arguments, its own code and the values it reads
+  private async cacheKey(
+    { task, args }: TaskNode,
+    inputs: InputHashes,
+    outputs: string[],
+  ): Promise<string> {
+    const tools: Record<string, string> = {};
+    for (const tool of this.toolValsUsedBy(task)) {
+      try {
+        tools[tool.name] = await resolveToolPath(tool);
+      } catch {
+        // fails the same way if the task gets to calling it
+      }
+    }
+
+    const code = taskCode(task);
+
+    return createHash("sha256")
+      .update(
+        JSON.stringify({
+          inputs,
+          outputs: outputs.map((o) => path.relative(this.root, o)),
+          tools,
+          env: task.env.envValues(),
+          args: [...args].map(([name, value]) => [name, describeValue(value)]),
+          body: withoutSpans(code),
+          reads: valuesReadBy(code, task.env),
+        }),
+      )
+      .digest("hex");
+  }
+
+  // the value of a property holding a path or a list of them, like
+  // inputs, null if the task doesn't have it
+  private async evalPaths(
+    task: TaskVal,
+    property: string,
+    scope: Environment,
+  ): Promise<string[] | null> {
+    const expr = task.properties.get(property);
+    if (!expr) return null;
 
-  constructor(env: Environment) {
-    this.env = env;
-    this.completedTasks = new Set();
-    this.visitingTasks = new Set();
+    const value = await evaluate(expr, scope);
+    const items =
+      value.type === "array" ? (value as ArrayVal).elements : [value];
+
+    return items.map((item) => {
+      if (item.type !== "string") {
+        const err = new RuntimeError(
+          `Task ${property} must be a path or a list of paths, got ${item.type}`,
+        );
+        err.span = expr.span;
+        throw err;
+      }
+      return path.resolve(this.root, item.value);
+    });
   }
 
-  public load(program: ast.Program) {
+  private async evalModule(
+    program: ast.Program,
+    file: string,
+    env: Environment,
+  ) {
     for (const stmt of program.body) {
-      evaluate(stmt, this.env);
+      if (stmt.kind === "ImportDeclaration") {
+        try {
+          await this.evalImport(stmt as ast.ImportDeclaration, file, env);
+        } catch (e) {
+          if (e instanceof RuntimeError && !e.span) e.span = stmt.span;
+          throw e;
+        }
+      } else if (stmt.kind === "AfterAllBlock") {
+        this.afterAll.push({ body: (stmt as ast.AfterAllBlock).body, env });
+      } else if (stmt.kind === "OptionDeclaration") {
+        await this.evalOption(stmt as ast.OptionDeclaration, env);
+      } else if (stmt.kind === "IfStatement") {
+        // at the top level, what a branch declares belongs to the file
+        const body = await chosenBranch(stmt as ast.IfStatement, env);
+        await this.evalModule(
+          { kind: "Program", body, span: stmt.span } as ast.Program,
+          file,
+          env,
+        );
+      } else {
+        await evaluate(stmt, env);
+      }
     }
   }
 
-  public run(taskName: string) {
-    if (this.completedTasks.has(taskName)) return;
+  // declares an option as a const, holding the value given on the command
+  // line or its default
+  private async evalOption(node: ast.OptionDeclaration, env: Environment) {
+    const what = `Option '${node.symbol}'`;
+    const text = this.takeOption(node);
 
-    if (this.visitingTasks.has(taskName)) {
+    let value: RuntimeVal;
+    try {
+      value =
+        text === undefined
+          ? await evaluate(node.defaultValue, env)
+          : parseCliArg(text, OPTION_VALUE_TYPES[node.valueType], what);
+
+      if (value.type !== OPTION_VALUE_TYPES[node.valueType]) {
+        throw new RuntimeError(
+          `The default of option '${node.symbol}' must be a ${node.valueType}, got ${value.type}.`,
+        );
+      }
+      if (node.choices && !node.choices.includes(value.value)) {
+        const choices = node.choices.map((c) => JSON.stringify(c));
+        throw new RuntimeError(
+          `${what} must be one of ${choices.join(", ")}, got ${JSON.stringify(value.value)}.`,
+        );
+      }
+    } catch (e) {
+      if (e instanceof RuntimeError) e.span ??= node.span;
+      throw e;
+    }
+
+    env.declareVar(node.symbol, value, true);
+  }
+
+  // the text given for an option with -D or among the task arguments,
+  // taking it out of them. undefined if it wasn't given
+  private takeOption(node: ast.OptionDeclaration): string | undefined {
+    const flag = `--${node.symbol}`;
+    const given: string[] = [];
+
+    if (this.defines.has(node.symbol)) {
+      given.push(this.defines.get(node.symbol)!);
+      this.defines.delete(node.symbol);
+    } else if (this.cliFlags.has(node.symbol)) {
       throw new RuntimeError(
-        `Circular dependency detected involving task '${taskName}'`,
+        `${flag} is a flag of build itself and can't set option '${node.symbol}'. Use -D ${node.symbol}=<value> instead.`,
+      );
+    }
+
+    for (let i = 0; i < this.taskArgs.length; i++) {
+      const word = this.taskArgs[i];
+      let words = 1;
+
+      if (word.startsWith(flag + "=")) {
+        given.push(word.slice(flag.length + 1));
+      } else if (word !== flag) {
+        continue;
+      } else if (node.valueType === "bool") {
+        given.push("true");
+      } else if (i + 1 < this.taskArgs.length) {
+        given.push(this.taskArgs[i + 1]);
+        words = 2;
+      } else {
+        throw new RuntimeError(`Option '${flag}' needs a value.`);
+      }
+
+      this.taskArgs.splice(i--, words);
+    }
+
+    if (given.length > 1) {
+      throw new RuntimeError(`Option '${node.symbol}' was given twice.`);
+    }
+    return given[0];
+  }
+
+  private async evalImport(
+    node: ast.ImportDeclaration,
+    file: string,
+    env: Environment,
+  ) {
+    const target = path.resolve(path.dirname(file), node.path);
+    const exports = (await this.loadModule(target, node.path)).exports();
+
+    if (node.alias) {
+      env.declareImport(
+        node.alias,
+        MK_OBJECT(Object.fromEntries(exports)),
+        node.path,
       );
+      return;
     }
 
-    this.visitingTasks.add(taskName);
+    for (const [name, value] of exports) {
+      // the same declaration can arrive twice through a shared import
+      if (env.hasVar(name) && env.lookupVar(name) === value) continue;
 
-    const taskVal = this.env.lookupVar(taskName);
-    if (!taskVal || taskVal.type !== "task") {
-      throw new RuntimeError(`Task '${taskName}' is not defined.`);
+      try {
+        env.declareImport(name, value, node.path);
+      } catch (e) {
+        throw new RuntimeError(
+          `Cannot import '${name}' from '${node.path}'. ${(e as Error).message}`,
+        );
+      }
     }
+  }
 
-    const task = taskVal as TaskVal;
+  private async loadModule(
+    file: string,
+    displayPath: string,
+  ): Promise<Environment> {
+    const cached = this.modules.get(file);
+    if (cached) return cached;
 
-    for (const dep of task.dependencies) {
-      this.run(dep);
+    const cycleStart = this.loadingModules.indexOf(file);
+    if (cycleStart !== -1) {
+      const chain = [...this.loadingModules.slice(cycleStart), file]
+        .map((f) => path.basename(f))
+        .join(" -> ");
+      throw new RuntimeError(`Circular import detected: ${chain}`);
     }
 
-    console.log(`\n> Running task: ${taskName}`);
+    if (!fs.existsSync(file) || !fs.statSync(file).isFile()) {
+      throw new RuntimeError(
+        `Cannot import '${displayPath}': no file found at ${file}.`,
+      );
+    }
 
-    const taskScope = new Environment(this.env);
-    for (const stmt of task.body) {
-      evaluate(stmt, taskScope);
+    let program: ast.Program;
+    try {
+      program = new Parser().produceAST(
+        tokenize(fs.readFileSync(file, "utf8")),
+        file,
+      );
+    } catch (e) {
+      if (e instanceof SyntaxError && !e.file) e.file = file;
+      throw e;
     }
 
-    this.visitingTasks.delete(taskName);
-    this.completedTasks.add(taskName);
+    // imported files get their own scope, next to the Buildfile's, so they
+    // only see the built-ins and their declarations only reach the importer
+    // through exports()
+    const moduleEnv = new Environment(this.builtins);
+
+    this.loadingModules.push(file);
+    await this.evalModule(program, file, moduleEnv);
+    this.loadingModules.pop();
+
+    this.modules.set(file, moduleEnv);
+    return moduleEnv;
   }
 }
 
-function evalStringLiteral(
-  node: ast.StringLiteral,
-  env: Environment,
+// resolves a (possibly namespaced) task name like 'build' or 'docker.build'
+function lookupTask(name: string, env: Environment): TaskVal {
+  const [head, ...rest] = name.split(".");
+
+  let val: RuntimeVal | undefined = env.hasVar(head)
+    ? env.lookupVar(head)
+    : undefined;
+
+  for (const key of rest) {
+    val =
+      val?.type === "object"
+        ? (val as ObjectVal).properties.get(key)
+        : undefined;
+  }
+
+  if (!val || val.type !== "task") {
+    throw new RuntimeError(`Task '${name}' is not defined.`);
+  }
+
+  return val as TaskVal;
+}
+
+// the type of the values an option holds
+const OPTION_VALUE_TYPES: Record<ast.OptionType, ValueType> = {
+  bool: "boolean",
+  number: "number",
+  string: "string",
+};
+
+// whether a command line word is an argument for the task before it rather
+// than the name of another task: --target prod, --verbose or target=prod
+function isTaskArg(word: string): boolean {
+  return word.startsWith("-") || /^[A-Za-z_]\w*=/.test(word);
+}
+
+// a parameter that defaults to true or false, which can be given on the
+// command line as just --verbose
+function isFlag(param: ast.FunctionParam): boolean {
+  const value = param.defaultValue;
+  return (
+    value?.kind === "Identifier" &&
+    ["true", "false"].includes((value as ast.Identifier).symbol)
+  );
+}
+
+// text given on the command line, read as a value of `type`. anything
+// other than a number or a boolean stays text. `what` names the parameter
+// or option it's for in errors
+function parseCliArg(
+  text: string,
+  type: ValueType | undefined,
+  what: string,
 ): RuntimeVal {
-  let str = node.value;
+  switch (type) {
+    case "number": {
+      const n = Number(text);
+      if (text.trim() === "" || !Number.isFinite(n)) {
+        throw new RuntimeError(`${what} must be a number, got '${text}'.`);
+      }
+      return MK_NUMBER(n);
+    }
+    case "boolean":
+      if (text !== "true" && text !== "false") {
+        throw new RuntimeError(`${what} must be true or false, got '${text}'.`);
+      }
+      return MK_BOOL(text === "true");
+    default:
+      return MK_STRING(text);
+  }
+}
 
-  // interpolate ${VAR_NAME}
-  str = str.replace(/\$\{([a-zA-Z0-9_$]+)\}/g, (match, varName) => {
-    try {
-      const val = env.lookupVar(varName);
-      return String(val.value);
-    } catch {
-      throw new RuntimeError(
-        `Cannot resolve undefined variable '${varName}' in template string.`,
+// the arguments a task passes to one of its dependencies, by parameter
+// name: depends build(mode: "release")
+async function dependencyArgs(
+  dep: ast.TaskDependency,
+  target: TaskVal,
+  scope: Environment,
+): Promise<Map<string, RuntimeVal>> {
+  const args = new Map<string, RuntimeVal>();
+  let position = 0;
+
+  for (const arg of dep.args) {
+    let name: string;
+    let expr: ast.Expr;
+
+    if (arg.kind === "NamedArg") {
+      ({ name, value: expr } = arg as ast.NamedArg);
+      if (!target.parameters.some((p) => p.name === name)) {
+        throw new RuntimeError(
+          `Task '${target.name}' has no parameter named '${name}'.`,
+        );
+      }
+      if (args.has(name)) {
+        throw new RuntimeError(
+          `Parameter '${name}' of task '${target.name}' was passed twice.`,
+        );
+      }
+    } else {
+      if (position >= target.parameters.length) {
+        throw new RuntimeError(
+          `Task '${target.name}' expects at most ${target.parameters.length} argument(s), got ${position + 1}.`,
+        );
+      }
+      name = target.parameters[position++].name;
+      expr = arg;
+    }
+
+    args.set(name, await evaluate(expr, scope));
+  }
+
+  return args;
+}
+
+// how a run of a task is named in its output: deploy(target: "prod")
+function taskLabel(task: TaskVal, args: Map<string, RuntimeVal>): string {
+  if (task.parameters.length === 0) return task.name;
+
+  const list = [...args].map(
+    ([name, value]) => `${name}: ${describeValue(value)}`,
+  );
+  return `${task.name}(${list.join(", ")})`;
+}
+
+// a value as it would be written in a Buildfile
+function describeValue(value: RuntimeVal): string {
+  switch (value.type) {
+    case "string":
+      return JSON.stringify(value.value);
+    case "array":
+      return `[${(value as ArrayVal).elements.map(describeValue).join(", ")}]`;
+    case "object": {
+      const entries = [...(value as ObjectVal).properties].map(
+        ([key, v]) => `${key}: ${describeValue(v)}`,
       );
+      return `{ ${entries.join(", ")} }`;
     }
-  });
+    default:
+      return stringify(value);
+  }
+}
 
-  return MK_STRING(str);
+export async function evaluate(
+  astNode: ast.Stmt,
+  env: Environment,
+): Promise<RuntimeVal> {
+  try {
+    return await evaluateNode(astNode, env);
+  } catch (e) {
+    // the first node to see the error is the most precise location
+    if (e instanceof RuntimeError && !e.span) e.span = astNode.span;
+    throw e;
+  }
 }
 
-export function evaluate(astNode: ast.Stmt, env: Environment): RuntimeVal {
+async function evaluateNode(
+  astNode: ast.Stmt,
+  env: Environment,
+): Promise<RuntimeVal> {
   switch (astNode.kind) {
     // primitives
     case "NumericLiteral":
       return MK_NUMBER((astNode as ast.NumericLiteral).value);
     case "StringLiteral":
-      return evalStringLiteral(astNode as ast.StringLiteral, env);
+      return MK_STRING((astNode as ast.StringLiteral).value);
     case "BooleanLiteral":
       return MK_BOOL((astNode as ast.BooleanLiteral).value);
     case "Identifier":
@@ -104,14 +1183,22 @@ export function evaluate(astNode: ast.Stmt, env: Environment): RuntimeVal {
       return evalTemplateLiteral(astNode as ast.TemplateLiteral, env);
     case "ArrayLiteral":
       return evalArrayLiteral(astNode as ast.ArrayLiteral, env);
+    case "ObjectLiteral":
+      return evalObjectLiteral(astNode as ast.ObjectLiteral, env);
 
     // expressions
     case "AssignmentExpr":
       return evalAssignment(astNode as ast.AssignmentExpr, env);
     case "BinaryExpr":
       return evalBinaryExpr(astNode as ast.BinaryExpr, env);
+    case "LogicalExpr":
+      return evalLogicalExpr(astNode as ast.LogicalExpr, env);
+    case "UnaryExpr":
+      return evalUnaryExpr(astNode as ast.UnaryExpr, env);
     case "CallExpr":
       return evalCallExpr(astNode as ast.CallExpr, env);
+    case "MemberExpr":
+      return evalMemberExpr(astNode as ast.MemberExpr, env);
 
     // declarations & statements
     case "VarDeclaration":
@@ -121,9 +1208,36 @@ export function evaluate(astNode: ast.Stmt, env: Environment): RuntimeVal {
     case "ToolDeclaration":
       return evalToolDecl(astNode as ast.ToolDeclaration, env);
     case "PlatformBlock":
-      return evalPlatformBlock(astNode as ast.PlatformBlock, env);
+      return evalBlock(
+        await chosenBranch(astNode as ast.PlatformBlock, env),
+        env,
+      );
+    case "IfStatement":
+      return evalBlock(
+        await chosenBranch(astNode as ast.IfStatement, env),
+        env,
+      );
+    case "WhileStatement":
+      return evalWhileStatement(astNode as ast.WhileStatement, env);
+    case "ForInStatement":
+      return evalForInStatement(astNode as ast.ForInStatement, env);
+    case "BreakStatement":
+      throw new BreakSignal();
+    case "ContinueStatement":
+      throw new ContinueSignal();
+    case "TryStatement":
+      return evalTryStatement(astNode as ast.TryStatement, env);
+    case "ReturnStatement": {
+      const ret = astNode as ast.ReturnStatement;
+      throw new ReturnSignal(
+        ret.value ? await evaluate(ret.value, env) : MK_NIL(),
+      );
+    }
+    case "FunctionDeclaration":
+      return evalFnDecl(astNode as ast.FunctionDeclaration, env);
     case "Program":
-      for (const stmt of (astNode as ast.Program).body) evaluate(stmt, env);
+      for (const stmt of (astNode as ast.Program).body)
+        await evaluate(stmt, env);
       return MK_NIL();
 
     default:
@@ -138,55 +1252,211 @@ function evalIdentifier(id: ast.Identifier, env: Environment): RuntimeVal {
   return val;
 }
 
-function evalTemplateLiteral(
+async function evalTemplateLiteral(
   node: ast.TemplateLiteral,
   env: Environment,
-): RuntimeVal {
+): Promise<RuntimeVal> {
   let result = "";
-  for (let i = 0; i < node.variables.length; i++) {
+  for (let i = 0; i < node.expressions.length; i++) {
     result += node.segments[i];
-    const val = env.lookupVar(node.variables[i]);
-    result += String(val.value);
+    result += stringify(await evaluate(node.expressions[i], env));
   }
   result += node.segments[node.segments.length - 1];
   return MK_STRING(result);
 }
 
-function evalArrayLiteral(
+async function evalArrayLiteral(
   node: ast.ArrayLiteral,
   env: Environment,
-): RuntimeVal {
+): Promise<RuntimeVal> {
   const elements: RuntimeVal[] = [];
 
   for (const el of node.elements) {
     if (el.kind === "SpreadElement") {
-      const spreadVal = evaluate((el as ast.SpreadElement).argument, env);
+      const spreadVal = await evaluate((el as ast.SpreadElement).argument, env);
       if (spreadVal.type !== "array") {
         throw new RuntimeError("Cannot spread a non-array value.");
       }
       elements.push(...(spreadVal as any).elements);
     } else {
-      elements.push(evaluate(el, env));
+      elements.push(await evaluate(el, env));
     }
   }
 
   return MK_ARRAY(elements);
 }
 
-function evalAssignment(
+async function evalObjectLiteral(
+  node: ast.ObjectLiteral,
+  env: Environment,
+): Promise<RuntimeVal> {
+  const properties: Record<string, RuntimeVal> = {};
+
+  for (const prop of node.properties) {
+    properties[prop.key] = await evaluate(prop.value, env);
+  }
+
+  return MK_OBJECT(properties);
+}
+
+async function evalMemberExpr(
+  node: ast.MemberExpr,
+  env: Environment,
+): Promise<RuntimeVal> {
+  const object = await evaluate(node.object, env);
+  const key = await evalMemberKey(node, env);
+
+  if (object.type === "object") {
+    return (object as ObjectVal).properties.get(String(key.value)) ?? MK_NIL();
+  }
+
+  if (object.type === "array" || object.type === "string") {
+    const items: RuntimeVal[] =
+      object.type === "array"
+        ? (object as ArrayVal).elements
+        : [...(object.value as string)].map((c) => MK_STRING(c));
+
+    if (key.type === "string" && key.value === "length") {
+      return MK_NUMBER(items.length);
+    }
+
+    return items[toIndex(key, object.type)] ?? MK_NIL();
+  }
+
+  throw new RuntimeError(
+    `Cannot read property '${key.value}' of a value of type '${object.type}'.`,
+  );
+}
+
+async function evalMemberKey(
+  node: ast.MemberExpr,
+  env: Environment,
+): Promise<RuntimeVal> {
+  return node.computed
+    ? await evaluate(node.property, env)
+    : MK_STRING((node.property as ast.Identifier).symbol);
+}
+
+function toIndex(key: RuntimeVal, targetType: string): number {
+  if (key.type !== "number" || !Number.isInteger(key.value)) {
+    throw new RuntimeError(
+      `Cannot index ${targetType} with '${key.value}'. Expected an integer.`,
+    );
+  }
+  return key.value;
+}
+
+async function evalAssignment(
   node: ast.AssignmentExpr,
   env: Environment,
-): RuntimeVal {
+): Promise<RuntimeVal> {
+  if (node.assignee.kind === "MemberExpr") {
+    return await evalMemberAssignment(
+      node.assignee as ast.MemberExpr,
+      node,
+      env,
+    );
+  }
+
   if (node.assignee.kind !== "Identifier") {
-    throw new RuntimeError("Invalid assignment target. Must be an identifier.");
+    throw new RuntimeError(
+      "Invalid assignment target. Must be an identifier or a property.",
+    );
   }
   const varname = (node.assignee as ast.Identifier).symbol;
-  return env.assignVar(varname, evaluate(node.value, env));
+  return env.assignVar(varname, await evaluate(node.value, env));
+}
+
+async function evalMemberAssignment(
+  member: ast.MemberExpr,
+  node: ast.AssignmentExpr,
+  env: Environment,
+): Promise<RuntimeVal> {
+  // constants are immutable all the way down: naming one is caught here,
+  // reaching its value through another variable below
+  let root: ast.Expr = member;
+  while (root.kind === "MemberExpr") root = (root as ast.MemberExpr).object;
+
+  if (root.kind === "Identifier") {
+    const name = (root as ast.Identifier).symbol;
+    if (env.isConstant(name)) {
+      throw new RuntimeError(`Cannot modify constant '${name}'.`);
+    }
+  }
+
+  const object = await evaluate(member.object, env);
+  const key = await evalMemberKey(member, env);
+  const value = await evaluate(node.value, env);
+
+  if ((object as ArrayVal | ObjectVal).frozen) {
+    throw new RuntimeError(
+      `Cannot set '${key.value}' on a value that belongs to a constant.`,
+    );
+  }
+
+  if (object.type === "object") {
+    (object as ObjectVal).properties.set(String(key.value), value);
+    return value;
+  }
+
+  if (object.type === "array") {
+    const elements = (object as ArrayVal).elements;
+    const index = toIndex(key, "array");
+
+    // assigning one past the end appends
+    if (index < 0 || index > elements.length) {
+      throw new RuntimeError(
+        `Index ${index} is out of bounds for an array of length ${elements.length}.`,
+      );
+    }
+
+    elements[index] = value;
+    return value;
+  }
+
+  throw new RuntimeError(
+    `Cannot set property '${key.value}' on a value of type '${object.type}'.`,
+  );
 }
 
-function evalBinaryExpr(node: ast.BinaryExpr, env: Environment): RuntimeVal {
-  const lhs = evaluate(node.left, env);
-  const rhs = evaluate(node.right, env);
+async function evalBinaryExpr(
+  node: ast.BinaryExpr,
+  env: Environment,
+): Promise<RuntimeVal> {
+  const lhs = await evaluate(node.left, env);
+  const rhs = await evaluate(node.right, env);
+
+  // equality works across all types
+  if (node.operator === "==") return MK_BOOL(valuesEqual(lhs, rhs));
+  if (node.operator === "!=") return MK_BOOL(!valuesEqual(lhs, rhs));
+
+  // ordering (numbers or strings only)
+  if (
+    node.operator === "<" ||
+    node.operator === "<=" ||
+    node.operator === ">" ||
+    node.operator === ">="
+  ) {
+    if (
+      !(lhs.type === "number" && rhs.type === "number") &&
+      !(lhs.type === "string" && rhs.type === "string")
+    ) {
+      throw new RuntimeError(
+        `Cannot compare ${lhs.type} ${node.operator} ${rhs.type}. Both sides must be numbers or strings.`,
+      );
+    }
+
+    switch (node.operator) {
+      case "<":
+        return MK_BOOL(lhs.value < rhs.value);
+      case "<=":
+        return MK_BOOL(lhs.value <= rhs.value);
+      case ">":
+        return MK_BOOL(lhs.value > rhs.value);
+      case ">=":
+        return MK_BOOL(lhs.value >= rhs.value);
+    }
+  }
 
   // math
   if (lhs.type === "number" && rhs.type === "number") {
@@ -206,7 +1476,7 @@ function evalBinaryExpr(node: ast.BinaryExpr, env: Environment): RuntimeVal {
 
   // str concat
   if (node.operator === "+") {
-    return MK_STRING(String(lhs.value) + String(rhs.value));
+    return MK_STRING(stringify(lhs) + stringify(rhs));
   }
 
   throw new RuntimeError(
@@ -214,16 +1484,53 @@ function evalBinaryExpr(node: ast.BinaryExpr, env: Environment): RuntimeVal {
   );
 }
 
-function evalCallExpr(node: ast.CallExpr, env: Environment): RuntimeVal {
-  const callee = evaluate(node.callee, env);
+async function evalLogicalExpr(
+  node: ast.LogicalExpr,
+  env: Environment,
+): Promise<RuntimeVal> {
+  const lhs = await evaluate(node.left, env);
+
+  // short-circuit, returning the operand that decided the result
+  if (node.operator === "&&") {
+    return isTruthy(lhs) ? await evaluate(node.right, env) : lhs;
+  }
+  return isTruthy(lhs) ? lhs : await evaluate(node.right, env);
+}
+
+async function evalUnaryExpr(
+  node: ast.UnaryExpr,
+  env: Environment,
+): Promise<RuntimeVal> {
+  const arg = await evaluate(node.argument, env);
+
+  switch (node.operator) {
+    case "!":
+      return MK_BOOL(!isTruthy(arg));
+    case "-":
+      if (arg.type !== "number") {
+        throw new RuntimeError(`Cannot negate a value of type '${arg.type}'.`);
+      }
+      return MK_NUMBER(-arg.value);
+  }
+
+  throw new EngineError(`Unknown unary operator '${node.operator}'`);
+}
+
+async function evalCallExpr(
+  node: ast.CallExpr,
+  env: Environment,
+): Promise<RuntimeVal> {
+  const callee = await evaluate(node.callee, env);
 
   const args: RuntimeVal[] = [];
   const namedArgs: Record<string, RuntimeVal> = {};
-  let hasNamedArgs = false;
 
   for (const arg of node.args) {
     if (arg.kind === "SpreadElement") {
-      const spreadVal = evaluate((arg as ast.SpreadElement).argument, env);
+      const spreadVal = await evaluate(
+        (arg as ast.SpreadElement).argument,
+        env,
+      );
       if (spreadVal.type === "array") {
         args.push(...(spreadVal as any).elements);
       } else {
@@ -233,81 +1540,373 @@ function evalCallExpr(node: ast.CallExpr, env: Environment): RuntimeVal {
       }
     } else if (arg.kind === "NamedArg") {
       const named = arg as ast.NamedArg;
-      namedArgs[named.name] = evaluate(named.value, env);
-      hasNamedArgs = true;
+      namedArgs[named.name] = await evaluate(named.value, env);
     } else {
-      args.push(evaluate(arg, env));
+      args.push(await evaluate(arg, env));
     }
   }
 
-  if (hasNamedArgs) {
-    args.push(MK_OBJECT(namedArgs));
+  if (callee.type === "fn") {
+    return await callFunction(callee as FunctionVal, args, namedArgs);
   }
 
+  const named = new Map(Object.entries(namedArgs));
+
   if (callee.type === "native-fn") {
     const fn = callee as NativeFnValue;
-    return fn.call(args, env);
+    return await fn.call(args, env, named);
   }
 
   if (callee.type === "tool") {
     const tool = callee as ToolVal;
-    const resolvedPath = resolveToolPath(tool, env);
+    const resolvedPath = await resolveToolPath(tool);
 
     const execFn = env.lookupVar("exec") as NativeFnValue;
-    return execFn.call([MK_STRING(resolvedPath), ...args], env);
+    return await execFn.call([MK_STRING(resolvedPath), ...args], env, named);
   }
 
   throw new RuntimeError(`Cannot call value of type '${callee.type}'.`);
 }
 
-function evalVarDecl(node: ast.VarDeclaration, env: Environment): RuntimeVal {
-  const value = evaluate(node.value, env);
-  return env.declareVar(node.identifier, value, node.isConst, node.isEnv);
+async function callFunction(
+  fn: FunctionVal,
+  args: RuntimeVal[],
+  namedArgs: Record<string, RuntimeVal>,
+): Promise<RuntimeVal> {
+  if (args.length > fn.parameters.length) {
+    throw new RuntimeError(
+      `Function '${fn.name}' expects at most ${fn.parameters.length} argument(s), got ${args.length}.`,
+    );
+  }
+
+  for (const name of Object.keys(namedArgs)) {
+    const index = fn.parameters.findIndex((p) => p.name === name);
+    if (index === -1) {
+      throw new RuntimeError(
+        `Function '${fn.name}' has no parameter named '${name}'.`,
+      );
+    }
+    if (index < args.length) {
+      throw new RuntimeError(
+        `Parameter '${name}' of function '${fn.name}' was passed both positionally and by name.`,
+      );
+    }
+  }
+
+  const scope = new Environment(fn.env);
+
+  for (const [i, param] of fn.parameters.entries()) {
+    let value: RuntimeVal;
+
+    if (i < args.length) {
+      value = args[i];
+    } else if (param.name in namedArgs) {
+      value = namedArgs[param.name];
+    } else if (param.defaultValue) {
+      // defaults can refer to earlier parameters
+      value = await evaluate(param.defaultValue, scope);
+    } else {
+      throw new RuntimeError(
+        `Missing argument '${param.name}' for function '${fn.name}'.`,
+      );
+    }
+
+    scope.declareVar(param.name, value);
+  }
+
+  try {
+    for (const stmt of fn.body) {
+      await evaluate(stmt, scope);
+    }
+  } catch (e) {
+    if (e instanceof ReturnSignal) return e.value;
+    throw e;
+  }
+
+  return MK_NIL();
+}
+
+async function evalVarDecl(
+  node: ast.VarDeclaration,
+  env: Environment,
+): Promise<RuntimeVal> {
+  const value = await evaluate(node.value, env);
+  return env.declareVar(
+    node.identifier,
+    node.isConst ? frozenCopy(value) : value,
+    node.isConst,
+    node.isEnv,
+  );
 }
 
 function evalTaskDecl(node: ast.TaskDeclaration, env: Environment): RuntimeVal {
-  const task = MK_TASK(node.symbol, node.dependencies, node.body);
+  const task = MK_TASK(
+    node.symbol,
+    node.parameters,
+    node.dependencies,
+    new Map(node.properties.map((p) => [p.name, p.value])),
+    node.body,
+    new Map(node.hooks.map((h) => [h.hook, h.body])),
+    env,
+    node.span,
+    node.doc,
+  );
   return env.declareVar(node.symbol, task, true);
 }
 
+function evalFnDecl(
+  node: ast.FunctionDeclaration,
+  env: Environment,
+): RuntimeVal {
+  const fn = MK_FN(node.symbol, node.parameters, node.body, env);
+  return env.declareVar(node.symbol, fn, true);
+}
+
 function evalToolDecl(node: ast.ToolDeclaration, env: Environment): RuntimeVal {
-  const tool = MK_TOOL(node.symbol, node.options);
+  const tool = MK_TOOL(node.symbol, node.options, env);
   return env.declareVar(node.symbol, tool, true);
 }
 
-function evalPlatformBlock(
-  node: ast.PlatformBlock,
+// whether a `plat` or `arch` block is for the machine it runs on
+function platformMatches(node: ast.PlatformBlock): boolean {
+  const plat = currentPlatform();
+
+  if (node.type === "plat") {
+    return (
+      node.symbol === plat || (node.symbol === "unix" && plat !== "windows")
+    );
+  }
+  return node.symbol === os.arch();
+}
+
+// the statements of the branch that runs, the else branch's if there's one
+async function chosenBranch(
+  node: ast.IfStatement | ast.PlatformBlock,
   env: Environment,
-): RuntimeVal {
-  const plat = os.platform() === "win32" ? "windows" : os.platform();
-  const arch = os.arch();
+): Promise<ast.Stmt[]> {
+  const taken =
+    node.kind === "IfStatement"
+      ? isTruthy(await evaluate(node.condition, env))
+      : platformMatches(node);
+  return taken ? node.body : (node.elseBody ?? []);
+}
 
-  let isMatch = false;
+// like loops, blocks get their own scope so what they declare stays in them
+async function evalBlock(
+  body: ast.Stmt[],
+  env: Environment,
+): Promise<RuntimeVal> {
+  const scope = new Environment(env);
+  for (const stmt of body) {
+    await evaluate(stmt, scope);
+  }
 
-  if (node.type === "plat") {
-    isMatch =
-      node.symbol === plat || (node.symbol === "unix" && plat !== "windows");
-  } else if (node.type === "arch") {
-    isMatch = node.symbol === arch;
+  return MK_NIL();
+}
+
+async function evalTryStatement(
+  node: ast.TryStatement,
+  env: Environment,
+): Promise<RuntimeVal> {
+  try {
+    await evalBlock(node.body, env);
+  } catch (e) {
+    // break, continue and return pass through, and so do engine bugs and
+    // a cancelled build
+    if (!(e instanceof RuntimeError) || e instanceof CancelledError) throw e;
+
+    const scope = new Environment(env);
+    if (node.param) scope.declareVar(node.param, caughtValue(e));
+
+    for (const stmt of node.handler) {
+      await evaluate(stmt, scope);
+    }
   }
 
-  const targetBody = isMatch ? node.body : node.elseBody || [];
+  return MK_NIL();
+}
 
-  for (const stmt of targetBody) {
-    evaluate(stmt, env);
+async function evalWhileStatement(
+  node: ast.WhileStatement,
+  env: Environment,
+): Promise<RuntimeVal> {
+  while (isTruthy(await evaluate(node.condition, env))) {
+    if (!(await runLoopIteration(node.body, new Environment(env)))) break;
   }
 
   return MK_NIL();
 }
 
-function resolveToolPath(tool: ToolVal, env: Environment): string {
-  const plat = os.platform() === "win32" ? "windows" : os.platform();
+async function evalForInStatement(
+  node: ast.ForInStatement,
+  env: Environment,
+): Promise<RuntimeVal> {
+  const iterable = await evaluate(node.iterable, env);
+  if (iterable.type !== "array") {
+    throw new RuntimeError(
+      `Cannot iterate over a value of type '${iterable.type}'. Expected an array.`,
+    );
+  }
+
+  // copy so that mutating the array inside the loop doesn't affect iteration
+  const elements = [...(iterable as ArrayVal).elements];
+
+  for (const element of elements) {
+    const iterScope = new Environment(env);
+    iterScope.declareVar(node.variable, element);
+    if (!(await runLoopIteration(node.body, iterScope))) break;
+  }
+
+  return MK_NIL();
+}
+
+// runs one loop iteration, returns false if the loop should stop (break)
+async function runLoopIteration(
+  body: ast.Stmt[],
+  scope: Environment,
+): Promise<boolean> {
+  try {
+    for (const stmt of body) {
+      await evaluate(stmt, scope);
+    }
+  } catch (e) {
+    if (e instanceof BreakSignal) return false;
+    if (e instanceof ContinueSignal) return true;
+    throw e;
+  }
+
+  return true;
+}
+
+// the statements of a task's body and of its hooks
+function taskCode(task: TaskVal): ast.Stmt[] {
+  return [...task.body, ...[...task.hooks.values()].flat()];
+}
+
+// what hooks see as `error`: nil, or what failed along with the task it
+// failed in
+function errorValue(failure: Failure | null): RuntimeVal {
+  if (!failure) return MK_NIL();
+
+  const { error, task } = failure;
+  const value = caughtValue(error);
+  value.properties.set("taskName", task === null ? MK_NIL() : MK_STRING(task));
+  return value;
+}
+
+// { message, exitCode, command } of an error, the last two are nil unless a
+// command failed
+function caughtValue(error: unknown): ObjectVal {
+  const failed = error instanceof CommandError;
+  return MK_OBJECT({
+    message: MK_STRING(error instanceof Error ? error.message : String(error)),
+    exitCode:
+      failed && error.exitCode !== null ? MK_NUMBER(error.exitCode) : MK_NIL(),
+    command: failed ? MK_STRING(error.command) : MK_NIL(),
+  });
+}
+
+// calls `visit` with every node in `node`, which may be a list of them
+function walkNodes(node: unknown, visit: (node: ast.Stmt) => void) {
+  if (Array.isArray(node)) {
+    node.forEach((n) => walkNodes(n, visit));
+  } else if (node && typeof node === "object") {
+    if ("kind" in node) visit(node as ast.Stmt);
+    Object.values(node).forEach((n) => walkNodes(n, visit));
+  }
+}
+
+// the values of the variables, constants and options that `code` reads
+// from `env`, with the code of the functions it calls and what they read
+// in turn, so that changing any of them changes a task's cache key
+function valuesReadBy(
+  code: unknown,
+  env: Environment,
+  seen = new Set<FunctionVal>(),
+): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const name of identifiersIn(code)) {
+    if (!env.hasVar(name)) continue; // declared in the code itself
+    values[name] = fingerprint(env.lookupVar(name), seen);
+  }
+  return values;
+}
+
+function fingerprint(value: RuntimeVal, seen: Set<FunctionVal>): string {
+  switch (value.type) {
+    case "fn": {
+      const fn = value as FunctionVal;
+      if (seen.has(fn)) return fn.name; // recursive, already described
+      seen.add(fn);
+      return JSON.stringify({
+        parameters: withoutSpans(fn.parameters),
+        body: withoutSpans(fn.body),
+        reads: valuesReadBy([fn.parameters, fn.body], fn.env, seen),
+      });
+    }
+    case "array": {
+      const elements = (value as ArrayVal).elements;
+      return `[${elements.map((e) => fingerprint(e, seen)).join(", ")}]`;
+    }
+    case "object": {
+      // a namespace brings the functions of an imported file
+      const entries = [...(value as ObjectVal).properties].map(
+        ([key, v]) => `${key}: ${fingerprint(v, seen)}`,
+      );
+      return `{ ${entries.join(", ")} }`;
+    }
+    default:
+      return describeValue(value);
+  }
+}
+
+// `node` as JSON, without where it was written so moving code around
+// doesn't count as changing it
+function withoutSpans(node: unknown): string {
+  return JSON.stringify(node, (key, value) =>
+    key === "span" ? undefined : value,
+  );
+}
+
+// every name referred to in `node`
+function identifiersIn(node: unknown): Set<string> {
+  const names = new Set<string>();
+  walkNodes(node, (n) => {
+    if (n.kind === "Identifier") names.add((n as ast.Identifier).symbol);
+  });
+  return names;
+}
+
+async function resolveToolPath(tool: ToolVal): Promise<string> {
+  const plat = currentPlatform();
   const arch = os.arch();
 
-  let bestMatch: any = null;
-  let bestScore = -1;
+  const bestMatch = matchToolOption(tool.options, plat, arch);
+
+  if (!bestMatch) {
+    throw new RuntimeError(
+      `No matching platform found for tool '${tool.name}' on ${plat}-${arch}`,
+    );
+  }
+
+  // evaluated where the tool was declared, which may be an imported file
+  const resolvedVal = await evaluate(bestMatch.expr, tool.env);
+  return String(resolvedVal.value);
+}
+
+export function currentPlatform(): string {
+  return os.platform() === "win32" ? "windows" : os.platform();
+}
+
+// picks the most specific tool option for a platform/arch pair, or null if
+// none of them apply
+export function matchToolOption<
+  T extends { platform: string | null; arch: string | null },
+>(options: T[], plat: string, arch: string): T | null {
+  let bestMatch: T | null = null;
+  let bestScore = 0;
 
-  for (const opt of tool.options) {
+  for (const opt of options) {
     let score = 0;
 
     if (opt.platform === plat && opt.arch === arch) score = 3;
@@ -315,7 +1914,8 @@ function resolveToolPath(tool: ToolVal, env: Environment): string {
     else if (opt.platform === "any" && opt.arch === arch) score = 2;
     else if (opt.platform === "any" && !opt.arch) score = 1;
     else if (opt.platform === "unix" && plat !== "windows") {
-      score = opt.arch === arch ? 2.5 : 1.5;
+      if (!opt.arch) score = 1.5;
+      else if (opt.arch === arch) score = 2.5;
     }
 
     if (score > bestScore) {
@@ -324,12 +1924,5 @@ function resolveToolPath(tool: ToolVal, env: Environment): string {
     }
   }
 
-  if (!bestMatch) {
-    throw new RuntimeError(
-      `No matching platform found for tool '${tool.name}' on ${plat}-${arch}`,
-    );
-  }
-
-  const resolvedVal = evaluate(bestMatch.expr, env);
-  return String(resolvedVal.value);
+  return bestMatch;
 }
@@ -19,9 +19,23 @@ export enum TokenType {
   CBracket, // ]
   Dot, // .
   ComparisonOperator, // < == > != >= <=
-  String, // "..." '...'
+  LogicalOperator, // && ||
+  Pipe, // | (between the choices of an option)
+  UnaryOperator, // !
+  String, // "..." '...' r"..."
+  TemplateString, // "...${expr}..."
   While, // while
+  If, // if
   Else,
+  For, // for
+  In, // in
+  Break, // break
+  Continue, // continue
+  Fn, // fn
+  Return, // return
+  Try, // try
+  Catch, // catch
+  Comment, // // ... (trivia, only collected for the formatter)
   EOF,
 
   // DSL SPECIFIC TOKENS
@@ -29,23 +43,42 @@ export enum TokenType {
   Depends,
   Tool,
   Import,
+  As,
   Env,
   Plat,
   Arch,
+  OnFailure,
+  Finally,
+  AfterAll,
+  Option,
 }
 
-const KEYWORDS: Record<string, TokenType> = {
+export const KEYWORDS: Record<string, TokenType> = {
   let: TokenType.Let,
   const: TokenType.Const,
   while: TokenType.While,
+  if: TokenType.If,
   task: TokenType.Task,
   depends: TokenType.Depends,
   tool: TokenType.Tool,
   import: TokenType.Import,
+  as: TokenType.As,
   env: TokenType.Env,
   plat: TokenType.Plat,
   arch: TokenType.Arch,
   else: TokenType.Else,
+  for: TokenType.For,
+  in: TokenType.In,
+  break: TokenType.Break,
+  continue: TokenType.Continue,
+  fn: TokenType.Fn,
+  return: TokenType.Return,
+  try: TokenType.Try,
+  catch: TokenType.Catch,
+  on_failure: TokenType.OnFailure,
+  finally: TokenType.Finally,
+  after_all: TokenType.AfterAll,
+  option: TokenType.Option,
 };
 
 export interface Token {
@@ -53,8 +86,28 @@ export interface Token {
   type: TokenType;
   line: number;
   col: number;
+  endLine: number;
+  endCol: number; // exclusive
+  template?: TemplateParts; // only set on TemplateString tokens
+  doc?: string; // the /// comment lines right above the token
 }
 
+// "a${x}b${y}c" -> segments ["a", "b", "c"], expressions [[x], [y]]
+export interface TemplateParts {
+  segments: string[];
+  expressions: Token[][];
+}
+
+const ESCAPES: Record<string, string> = {
+  n: "\n",
+  t: "\t",
+  r: "\r",
+  '"': '"',
+  "'": "'",
+  "\\": "\\",
+  $: "$",
+};
+
 function isAlpha(code: number): boolean {
   // a-z (97-122) or A-Z (65-90)
   return (code >= 97 && code <= 122) || (code >= 65 && code <= 90);
@@ -78,21 +131,95 @@ function isSkippable(code: number): boolean {
   return code === 32 || code === 9 || code === 13 || code === 127;
 }
 
-export function tokenize(src: string): Token[] {
+// returns the index of the '}' closing a ${...} whose body starts at `from`,
+// or -1 if there is none
+function findTemplateEnd(src: string, from: number): number {
+  let depth = 0;
+  let i = from;
+
+  while (i < src.length) {
+    const c = src.charCodeAt(i);
+
+    if (c === 34 || c === 39) {
+      // nested string, its braces don't count
+      i = skipString(src, i);
+      if (i === -1) return -1;
+      continue;
+    }
+
+    if (c === 123) {
+      depth++;
+    } else if (c === 125) {
+      if (depth === 0) return i;
+      depth--;
+    }
+    i++;
+  }
+
+  return -1;
+}
+
+// returns the index right after the string starting at `from`, or -1
+function skipString(src: string, from: number): number {
+  const quoteChar = src.charCodeAt(from);
+  let i = from + 1;
+
+  while (i < src.length) {
+    const c = src.charCodeAt(i);
+
+    if (c === 92) {
+      // backslash
+      i += 2;
+    } else if (c === quoteChar) {
+      return i + 1;
+    } else if (c === 36 && src.charCodeAt(i + 1) === 123) {
+      // ${
+      const end = findTemplateEnd(src, i + 2);
+      if (end === -1) return -1;
+      i = end + 1;
+    } else {
+      i++;
+    }
+  }
+
+  return -1;
+}
+
+// `line` and `col` give the position of src[0] in the file, which lets
+// template expressions be tokenized on their own with correct positions.
+// comments never reach the parser, they're collected into `trivia` if given.
+// /// doc comments are also attached to the token on the line below them
+export function tokenize(
+  src: string,
+  line = 1,
+  col = 1,
+  trivia?: Token[],
+): Token[] {
   const tokens = new Array<Token>();
   const len = src.length;
 
   let cursor = 0;
-  let currentLn = 1;
-  let lineStart = 0;
+  let currentLn = line;
+  let lineStart = 1 - col;
+
+  // consecutive /// lines waiting for the token they document
+  let doc: string[] = [];
+  let docLine = -1; // the line of the last one
 
   const push = (type: TokenType, value: string, startCursor: number) => {
+    const col = startCursor - lineStart + 1;
     tokens.push({
       value,
       type,
       line: currentLn,
-      col: startCursor - lineStart + 1,
+      col,
+      endLine: currentLn,
+      endCol: col + value.length,
+      ...(doc.length > 0 && docLine === currentLn - 1
+        ? { doc: doc.join("\n") }
+        : {}),
     });
+    doc = [];
   };
 
   while (cursor < len) {
@@ -173,6 +300,29 @@ export function tokenize(src: string): Token[] {
         while (cursor < len && src.charCodeAt(cursor) !== 10) {
           cursor++;
         }
+
+        const value = src.slice(start, cursor).trimEnd();
+
+        // a //// banner isn't documentation
+        if (/^\/\/\/(?!\/)/.test(value)) {
+          if (docLine !== currentLn - 1) doc = [];
+          doc.push(value.slice(3).trim());
+          docLine = currentLn;
+        } else {
+          doc = [];
+        }
+
+        if (trivia) {
+          const col = start - lineStart + 1;
+          trivia.push({
+            value,
+            type: TokenType.Comment,
+            line: currentLn,
+            col,
+            endLine: currentLn,
+            endCol: col + value.length,
+          });
+        }
       } else {
         push(TokenType.BinaryOperator, "/", start);
         cursor++;
@@ -225,30 +375,173 @@ export function tokenize(src: string): Token[] {
       if (cursor + 1 < len && src.charCodeAt(cursor + 1) === 61) {
         push(TokenType.ComparisonOperator, "!=", start);
         cursor += 2;
+      } else {
+        push(TokenType.UnaryOperator, "!", start);
+        cursor++;
+      }
+      continue;
+    }
+
+    // logical and / or (&& ||)
+    if (charCode === 38 || charCode === 124) {
+      // & or |
+      if (cursor + 1 < len && src.charCodeAt(cursor + 1) === charCode) {
+        push(TokenType.LogicalOperator, src.slice(cursor, cursor + 2), start);
+        cursor += 2;
+        continue;
+      }
+      if (charCode === 124) {
+        push(TokenType.Pipe, "|", start);
+        cursor++;
         continue;
       }
-      // this condition should never be reached once i add unary operators (above this)
       throw new SyntaxError(
-        `Unexpected character: !`,
+        `Unexpected character: ${src[cursor]}`,
         currentLn,
         start - lineStart + 1,
       );
     }
 
+    // raw strings r"..." or r'...' (no escapes, no interpolation)
+    if (
+      charCode === 114 &&
+      (src.charCodeAt(cursor + 1) === 34 || src.charCodeAt(cursor + 1) === 39)
+    ) {
+      // r
+      const quoteChar = src.charCodeAt(cursor + 1);
+      const startLn = currentLn;
+      const startCol = start - lineStart + 1;
+      cursor += 2; // skip r and opening
+      const stringStart = cursor;
+
+      while (cursor < len && src.charCodeAt(cursor) !== quoteChar) {
+        if (src.charCodeAt(cursor) === 10) {
+          currentLn++;
+          lineStart = cursor + 1;
+        }
+        cursor++;
+      }
+
+      if (cursor >= len) {
+        throw new SyntaxError("Unterminated string literal", startLn, startCol);
+      }
+
+      cursor++; // skip closing
+
+      tokens.push({
+        value: src.slice(stringStart, cursor - 1),
+        type: TokenType.String,
+        line: startLn,
+        col: startCol,
+        endLine: currentLn,
+        endCol: cursor - lineStart + 1,
+      });
+      continue;
+    }
+
     // strings (" or ')
     if (charCode === 34 || charCode === 39) {
       const quoteChar = charCode;
+      const startLn = currentLn;
+      const startCol = start - lineStart + 1;
       cursor++; // skip opening
-      const stringStart = cursor;
 
-      while (cursor < len && src.charCodeAt(cursor) !== quoteChar) {
+      const segments: string[] = [];
+      const expressions: Token[][] = [];
+      let segment = "";
+
+      while (true) {
+        if (cursor >= len) {
+          throw new SyntaxError(
+            "Unterminated string literal",
+            startLn,
+            startCol,
+          );
+        }
+
+        const c = src.charCodeAt(cursor);
+        if (c === quoteChar) break;
+
+        // escape sequences, unknown ones are kept as-is (eg. C:\Users)
+        if (c === 92) {
+          // backslash
+          const escaped = ESCAPES[src[cursor + 1]];
+          if (escaped !== undefined) {
+            segment += escaped;
+            cursor += 2;
+          } else {
+            segment += "\\";
+            cursor++;
+          }
+          continue;
+        }
+
+        // embedded expression ${ ... }
+        if (c === 36 && src.charCodeAt(cursor + 1) === 123) {
+          const exprStart = cursor + 2;
+          const exprLn = currentLn;
+          const exprCol = exprStart - lineStart + 1;
+
+          const exprEnd = findTemplateEnd(src, exprStart);
+          if (exprEnd === -1) {
+            throw new SyntaxError(
+              "Unterminated template expression",
+              exprLn,
+              exprCol - 2,
+            );
+          }
+
+          expressions.push(
+            tokenize(src.slice(exprStart, exprEnd), exprLn, exprCol),
+          );
+          segments.push(segment);
+          segment = "";
+
+          // keep line tracking in sync with newlines inside the expression
+          for (let i = exprStart; i < exprEnd; i++) {
+            if (src.charCodeAt(i) === 10) {
+              currentLn++;
+              lineStart = i + 1;
+            }
+          }
+
+          cursor = exprEnd + 1;
+          continue;
+        }
+
+        // multi-line strings
+        if (c === 10) {
+          currentLn++;
+          lineStart = cursor + 1;
+        }
+
+        segment += src[cursor];
         cursor++;
       }
 
-      const value = src.slice(stringStart, cursor);
-      push(TokenType.String, value, start);
-
-      if (cursor < len) cursor++; // skip closing
+      cursor++; // skip closing
+      segments.push(segment);
+
+      if (expressions.length === 0) {
+        tokens.push({
+          value: segment,
+          type: TokenType.String,
+          line: startLn,
+          col: startCol,
+          endLine: currentLn,
+          endCol: cursor - lineStart + 1,
+        });
+      } else {
+        tokens.push({
+          value: src.slice(start, cursor),
+          type: TokenType.TemplateString,
+          line: startLn,
+          col: startCol,
+          endLine: currentLn,
+          endCol: cursor - lineStart + 1,
+          template: { segments, expressions },
+        });
+      }
       continue;
     }
 
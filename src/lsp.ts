@@ -0,0 +1,978 @@
+import * as ast from "./ast.js";
+import { tokenize, Token, TokenType, KEYWORDS } from "./lexer.js";
+import { Parser } from "./parser.js";
+import { SyntaxError } from "./errors.js";
+import { BUILTIN_DOCS, createGlobalEnv } from "./environment.js";
+import { checkBuildfile } from "./checker.js";
+import { Diagnostic } from "./diagnostics.js";
+import { sliceSpan } from "./codeframe.js";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { Readable, Writable } from "node:stream";
+
+// the subset of the Language Server Protocol used here, see
+// https://microsoft.github.io/language-server-protocol/
+
+interface Position {
+  line: number; // 0-based
+  character: number; // 0-based
+}
+
+interface Range {
+  start: Position;
+  end: Position;
+}
+
+interface Message {
+  jsonrpc: "2.0";
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+// the params of the methods handled, as far as they're used
+
+interface TextDocumentIdentifier {
+  uri: string;
+}
+
+interface DidOpenParams {
+  textDocument: TextDocumentIdentifier & { text: string };
+}
+
+interface DidChangeParams {
+  textDocument: TextDocumentIdentifier;
+  contentChanges: { text: string }[];
+}
+
+interface TextDocumentParams {
+  textDocument: TextDocumentIdentifier;
+}
+
+interface TextDocumentPositionParams {
+  textDocument: TextDocumentIdentifier;
+  position: Position;
+}
+
+const ErrorCodes = {
+  ParseError: -32700,
+  MethodNotFound: -32601,
+  InternalError: -32603,
+};
+
+const CompletionItemKind = {
+  Function: 3,
+  Variable: 6,
+  Class: 7,
+  Module: 9,
+  Property: 10,
+  Keyword: 14,
+  Constant: 21,
+  Event: 23,
+};
+
+const SymbolKind = {
+  Module: 2,
+  Class: 5,
+  Function: 12,
+  Variable: 13,
+  Constant: 14,
+  Event: 24,
+};
+
+const DiagnosticSeverity = { error: 1, warning: 2, info: 3 };
+
+type DeclKind =
+  | "task"
+  | "tool"
+  | "fn"
+  | "const"
+  | "let"
+  | "env"
+  | "namespace"
+  | "param"
+  | "loop";
+
+// anything a name can refer to
+interface Declaration {
+  name: string;
+  kind: DeclKind;
+  constant: boolean;
+  file: string;
+  node: ast.Stmt | null; // null for parameters and loop variables
+  nameRange: Range;
+  module?: ModuleIndex; // for namespaces
+}
+
+interface ModuleIndex {
+  file: string;
+  tokens: Token[]; // includes the tokens inside template strings
+  program: ast.Program;
+  declarations: Map<string, Declaration>;
+}
+
+type Pos = { line: number; col: number }; // 1-based, like spans
+
+function before(a: Pos, b: Pos): boolean {
+  return a.line < b.line || (a.line === b.line && a.col < b.col);
+}
+
+function contains(span: ast.Span, pos: Pos): boolean {
+  return !before(pos, span.start) && !before(span.end, pos);
+}
+
+function tokenEnd(tk: Token): Pos {
+  return { line: tk.endLine, col: tk.endCol };
+}
+
+function toRange(start: Pos, end: Pos): Range {
+  return {
+    start: { line: start.line - 1, character: start.col - 1 },
+    end: { line: end.line - 1, character: end.col - 1 },
+  };
+}
+
+function uriToPath(uri: string): string {
+  return uri.startsWith("file:") ? fileURLToPath(uri) : uri;
+}
+
+function pathToUri(file: string): string {
+  return path.isAbsolute(file) ? pathToFileURL(file).href : file;
+}
+
+// tokens of template expressions are spliced in after their string, so that
+// names inside "${...}" can be looked up like any other
+function flattenTokens(tokens: Token[]): Token[] {
+  const flat: Token[] = [];
+  for (const tk of tokens) {
+    if (tk.type === TokenType.EOF) continue;
+    flat.push(tk);
+    for (const expr of tk.template?.expressions ?? []) {
+      flat.push(...flattenTokens(expr));
+    }
+  }
+  return flat;
+}
+
+// runs a language server over `input` and `output` until the client exits.
+// `flags` and `commands` are those of build itself, see checkBuildfile
+export function startLanguageServer(
+  input: Readable,
+  output: Writable,
+  serverInfo: { name: string; version: string },
+  flags: string[] = [],
+  commands: string[] = [],
+) {
+  const server = new LanguageServer(output, serverInfo, flags, commands);
+  input.on("data", (chunk: Buffer) => server.receive(chunk));
+  input.on("end", () => process.exit(0));
+}
+
+class LanguageServer {
+  private buffer = Buffer.alloc(0);
+  private documents = new Map<string, string>(); // by uri
+  private indexes = new Map<string, ModuleIndex>(); // last good one, by uri
+  private shuttingDown = false;
+
+  constructor(
+    private output: Writable,
+    private serverInfo: { name: string; version: string },
+    private flags: string[],
+    private commands: string[],
+  ) {}
+
+  // transport: messages are JSON bodies behind a Content-Length header
+
+  public receive(chunk: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    while (true) {
+      const headerEnd = this.buffer.indexOf("\r\n\r\n");
+      if (headerEnd === -1) return;
+
+      const header = this.buffer.subarray(0, headerEnd).toString("ascii");
+      const match = /Content-Length: *(\d+)/i.exec(header);
+      const bodyStart = headerEnd + 4;
+
+      if (!match) {
+        this.buffer = this.buffer.subarray(bodyStart);
+        continue;
+      }
+
+      const bodyEnd = bodyStart + Number(match[1]);
+      if (this.buffer.length < bodyEnd) return;
+
+      const body = this.buffer.subarray(bodyStart, bodyEnd).toString("utf8");
+      this.buffer = this.buffer.subarray(bodyEnd);
+
+      let message: Message;
+      try {
+        message = JSON.parse(body);
+      } catch {
+        this.send({
+          jsonrpc: "2.0",
+          id: null,
+          error: { code: ErrorCodes.ParseError, message: "Invalid JSON" },
+        });
+        continue;
+      }
+
+      this.dispatch(message);
+    }
+  }
+
+  private send(message: Message) {
+    const body = JSON.stringify(message);
+    this.output.write(
+      `Content-Length: ${Buffer.byteLength(body, "utf8")}\r\n\r\n${body}`,
+    );
+  }
+
+  private notify(method: string, params: unknown) {
+    this.send({ jsonrpc: "2.0", method, params });
+  }
+
+  private dispatch(message: Message) {
+    if (!message.method) return; // a response, we never send requests
+
+    const isRequest = message.id !== undefined;
+
+    try {
+      const result = this.handle(message.method, message.params);
+      if (!isRequest) return;
+
+      if (result === undefined) {
+        this.send({
+          jsonrpc: "2.0",
+          id: message.id,
+          error: {
+            code: ErrorCodes.MethodNotFound,
+            message: `Unhandled method ${message.method}`,
+          },
+        });
+      } else {
+        this.send({ jsonrpc: "2.0", id: message.id, result });
+      }
+    } catch (e) {
+      if (!isRequest) return;
+      this.send({
+        jsonrpc: "2.0",
+        id: message.id,
+        error: {
+          code: ErrorCodes.InternalError,
+          message: e instanceof Error ? e.message : String(e),
+        },
+      });
+    }
+  }
+
+  // returns the result of a request, undefined if the method isn't supported
+  private handle(method: string, params: unknown): unknown {
+    switch (method) {
+      case "initialize":
+        return {
+          capabilities: {
+            textDocumentSync: 1, // full
+            definitionProvider: true,
+            hoverProvider: true,
+            completionProvider: { triggerCharacters: ["."] },
+            documentSymbolProvider: true,
+          },
+          serverInfo: this.serverInfo,
+        };
+
+      case "initialized":
+        return null;
+
+      case "shutdown":
+        this.shuttingDown = true;
+        return null;
+
+      case "exit":
+        process.exit(this.shuttingDown ? 0 : 1);
+
+      case "textDocument/didOpen": {
+        const { textDocument } = params as DidOpenParams;
+        this.update(textDocument.uri, textDocument.text);
+        return null;
+      }
+
+      case "textDocument/didChange": {
+        // full sync, the last change has the whole text
+        const { textDocument, contentChanges } = params as DidChangeParams;
+        this.update(
+          textDocument.uri,
+          contentChanges[contentChanges.length - 1].text,
+        );
+        return null;
+      }
+
+      case "textDocument/didSave":
+        this.publishDiagnostics(
+          (params as TextDocumentParams).textDocument.uri,
+        );
+        return null;
+
+      case "textDocument/didClose": {
+        const { uri } = (params as TextDocumentParams).textDocument;
+        this.documents.delete(uri);
+        this.indexes.delete(uri);
+        this.notify("textDocument/publishDiagnostics", {
+          uri,
+          diagnostics: [],
+        });
+        return null;
+      }
+
+      case "textDocument/definition": {
+        const { textDocument, position } = params as TextDocumentPositionParams;
+        return this.definition(textDocument.uri, position);
+      }
+
+      case "textDocument/hover": {
+        const { textDocument, position } = params as TextDocumentPositionParams;
+        return this.hover(textDocument.uri, position);
+      }
+
+      case "textDocument/completion": {
+        const { textDocument, position } = params as TextDocumentPositionParams;
+        return this.completion(textDocument.uri, position);
+      }
+
+      case "textDocument/documentSymbol":
+        return this.documentSymbols(
+          (params as TextDocumentParams).textDocument.uri,
+        );
+
+      default:
+        // notifications we don't know about are fine to ignore
+        return method.startsWith("$/") ? null : undefined;
+    }
+  }
+
+  private update(uri: string, text: string) {
+    this.documents.set(uri, text);
+    this.publishDiagnostics(uri);
+  }
+
+  // diagnostics
+
+  private publishDiagnostics(uri: string) {
+    const file = uriToPath(uri);
+
+    const sources = new Map<string, string>();
+    for (const [docUri, text] of this.documents) {
+      sources.set(uriToPath(docUri), text);
+    }
+
+    const diagnostics = checkBuildfile(file, sources, this.flags, this.commands)
+      .filter((d) => d.file === file)
+      .map((d) => this.toLspDiagnostic(d));
+
+    this.notify("textDocument/publishDiagnostics", { uri, diagnostics });
+  }
+
+  private toLspDiagnostic(d: Diagnostic) {
+    const start = { line: d.line, col: d.col };
+    const end =
+      d.endLine !== undefined && d.endCol !== undefined
+        ? { line: d.endLine, col: d.endCol }
+        : { line: d.line, col: d.col + 1 };
+
+    return {
+      range: toRange(start, end),
+      severity: DiagnosticSeverity[d.severity],
+      code: d.code,
+      source: "buildfile",
+      message: d.message,
+    };
+  }
+
+  // indexing
+
+  private readSource(file: string): string | null {
+    for (const [uri, text] of this.documents) {
+      if (uriToPath(uri) === file) return text;
+    }
+
+    try {
+      return fs.readFileSync(file, "utf8");
+    } catch {
+      return null;
+    }
+  }
+
+  // the index of an open document, or the last one that could be built while
+  // the text doesn't even tokenize
+  private analyze(uri: string): ModuleIndex | null {
+    const index = this.indexModule(uriToPath(uri), new Map());
+    if (index) {
+      this.indexes.set(uri, index);
+      return index;
+    }
+    return this.indexes.get(uri) ?? null;
+  }
+
+  private indexModule(
+    file: string,
+    seen: Map<string, ModuleIndex | null>,
+  ): ModuleIndex | null {
+    if (seen.has(file)) return seen.get(file)!;
+    seen.set(file, null); // circular imports resolve to nothing
+
+    const src = this.readSource(file);
+    if (src === null) return null;
+
+    let tokens: Token[];
+    try {
+      tokens = tokenize(src);
+    } catch (e) {
+      if (e instanceof SyntaxError) return null;
+      throw e;
+    }
+
+    const index: ModuleIndex = {
+      file,
+      tokens: flattenTokens(tokens),
+      program: new Parser().parse(tokens, file).program,
+      declarations: new Map(),
+    };
+    seen.set(file, index);
+
+    this.indexBody(index, index.program.body, seen);
+    return index;
+  }
+
+  private indexBody(
+    index: ModuleIndex,
+    body: ast.Stmt[],
+    seen: Map<string, ModuleIndex | null>,
+  ) {
+    for (const stmt of body) {
+      if (stmt.kind === "ImportDeclaration") {
+        this.indexImport(index, stmt as ast.ImportDeclaration, seen);
+      } else if (stmt.kind === "IfStatement") {
+        // top-level branches declare into the file's scope
+        const node = stmt as ast.IfStatement;
+        this.indexBody(index, node.body, seen);
+        this.indexBody(index, node.elseBody ?? [], seen);
+      } else {
+        const decl = this.declarationOf(index, stmt);
+        if (decl) index.declarations.set(decl.name, decl);
+      }
+    }
+  }
+
+  private indexImport(
+    index: ModuleIndex,
+    node: ast.ImportDeclaration,
+    seen: Map<string, ModuleIndex | null>,
+  ) {
+    const target = path.resolve(path.dirname(index.file), node.path);
+    const imported = this.indexModule(target, seen);
+    if (!imported) return;
+
+    if (node.alias) {
+      index.declarations.set(node.alias, {
+        name: node.alias,
+        kind: "namespace",
+        constant: true,
+        file: index.file,
+        node,
+        nameRange: this.nameRange(index, node.alias, node.span.start),
+        module: imported,
+      });
+      return;
+    }
+
+    for (const decl of imported.declarations.values()) {
+      if (decl.constant) index.declarations.set(decl.name, decl);
+    }
+  }
+
+  private declarationOf(
+    index: ModuleIndex,
+    stmt: ast.Stmt,
+  ): Declaration | null {
+    let name: string;
+    let kind: DeclKind;
+    let constant = true;
+
+    switch (stmt.kind) {
+      case "VarDeclaration": {
+        const node = stmt as ast.VarDeclaration;
+        name = node.identifier;
+        kind = node.isConst ? "const" : node.isEnv ? "env" : "let";
+        constant = node.isConst;
+        break;
+      }
+      case "OptionDeclaration":
+        name = (stmt as ast.OptionDeclaration).symbol;
+        kind = "const";
+        break;
+      case "TaskDeclaration":
+        name = (stmt as ast.TaskDeclaration).symbol;
+        kind = "task";
+        break;
+      case "ToolDeclaration":
+        name = (stmt as ast.ToolDeclaration).symbol;
+        kind = "tool";
+        break;
+      case "FunctionDeclaration":
+        name = (stmt as ast.FunctionDeclaration).symbol;
+        kind = "fn";
+        break;
+      default:
+        return null;
+    }
+
+    return {
+      name,
+      kind,
+      constant,
+      file: index.file,
+      node: stmt,
+      nameRange: this.nameRange(index, name, stmt.span.start),
+    };
+  }
+
+  // the range of the first `name` identifier from `from` on
+  private nameRange(index: ModuleIndex, name: string, from: Pos): Range {
+    const tk = index.tokens.find(
+      (t) =>
+        t.type === TokenType.Identifier && t.value === name && !before(t, from),
+    );
+    return tk ? toRange(tk, tokenEnd(tk)) : toRange(from, from);
+  }
+
+  // declarations local to tasks and functions that are visible at `pos`
+  private localsAt(index: ModuleIndex, pos: Pos): Declaration[] {
+    const locals: Declaration[] = [];
+
+    const local = (name: string, kind: DeclKind, owner: ast.Stmt) => {
+      locals.push({
+        name,
+        kind,
+        constant: false,
+        file: index.file,
+        node: null,
+        nameRange: this.nameRange(index, name, owner.span.start),
+      });
+    };
+
+    const walk = (body: ast.Stmt[], topLevel: boolean) => {
+      for (const stmt of body) {
+        if (!topLevel && before(stmt.span.end, pos)) {
+          const decl = this.declarationOf(index, stmt);
+          if (decl) locals.push(decl);
+        }
+
+        if (!contains(stmt.span, pos)) continue;
+
+        switch (stmt.kind) {
+          case "TaskDeclaration": {
+            const node = stmt as ast.TaskDeclaration;
+            node.parameters.forEach((p) => local(p.name, "param", node));
+            walk([...node.body, ...node.hooks], false);
+            break;
+          }
+          case "TaskHook":
+          case "AfterAllBlock": {
+            const node = stmt as ast.TaskHook | ast.AfterAllBlock;
+            local("error", "const", node);
+            walk(node.body, false);
+            break;
+          }
+          case "WhileStatement":
+            walk((stmt as ast.WhileStatement).body, false);
+            break;
+          case "TryStatement": {
+            const node = stmt as ast.TryStatement;
+            walk(node.body, false);
+            if (node.param) local(node.param, "let", node);
+            walk(node.handler, false);
+            break;
+          }
+          case "FunctionDeclaration": {
+            const node = stmt as ast.FunctionDeclaration;
+            node.parameters.forEach((p) => local(p.name, "param", node));
+            walk(node.body, false);
+            break;
+          }
+          case "ForInStatement": {
+            const node = stmt as ast.ForInStatement;
+            local(node.variable, "loop", node);
+            walk(node.body, false);
+            break;
+          }
+          case "IfStatement":
+          case "PlatformBlock": {
+            const node = stmt as ast.IfStatement | ast.PlatformBlock;
+            walk(node.body, topLevel);
+            walk(node.elseBody ?? [], topLevel);
+            break;
+          }
+        }
+      }
+    };
+
+    walk(index.program.body, true);
+    return locals;
+  }
+
+  // resolves `a` or `ns.a` to its declaration
+  private resolve(
+    index: ModuleIndex,
+    segments: string[],
+    pos: Pos,
+  ): Declaration | null {
+    const [head, ...rest] = segments;
+
+    let decl: Declaration | null =
+      this.localsAt(index, pos).findLast((d) => d.name === head) ??
+      index.declarations.get(head) ??
+      null;
+
+    for (const name of rest) {
+      if (decl?.kind !== "namespace" || !decl.module) return null;
+      const member = decl.module.declarations.get(name);
+      decl = member?.constant ? member : null;
+    }
+
+    return decl;
+  }
+
+  // the identifier token at `pos` and the dotted path leading up to it
+  private identifierAt(
+    index: ModuleIndex,
+    position: Position,
+  ): { token: Token; segments: string[] } | null {
+    const pos = { line: position.line + 1, col: position.character + 1 };
+    const i = index.tokens.findIndex(
+      (tk) =>
+        tk.type === TokenType.Identifier &&
+        tk.line === pos.line &&
+        tk.col <= pos.col &&
+        pos.col <= tk.endCol,
+    );
+    if (i === -1) return null;
+
+    return { token: index.tokens[i], segments: this.pathBefore(index, i) };
+  }
+
+  // `a.b.c` for the index of `c`
+  private pathBefore(index: ModuleIndex, i: number): string[] {
+    const segments = [index.tokens[i].value];
+    while (
+      i >= 2 &&
+      index.tokens[i - 1].type === TokenType.Dot &&
+      index.tokens[i - 2].type === TokenType.Identifier
+    ) {
+      i -= 2;
+      segments.unshift(index.tokens[i].value);
+    }
+    return segments;
+  }
+
+  // features
+
+  private definition(uri: string, position: Position) {
+    const index = this.analyze(uri);
+    if (!index) return null;
+
+    const target = this.identifierAt(index, position);
+    if (!target) return null;
+
+    const decl = this.resolve(index, target.segments, target.token);
+    if (!decl) return null;
+
+    return {
+      uri: decl.file === index.file ? uri : pathToUri(decl.file),
+      range: decl.nameRange,
+    };
+  }
+
+  private hover(uri: string, position: Position) {
+    const index = this.analyze(uri);
+    if (!index) return null;
+
+    const target = this.identifierAt(index, position);
+    if (!target) return null;
+
+    const range = toRange(target.token, tokenEnd(target.token));
+    const decl = this.resolve(index, target.segments, target.token);
+
+    if (decl) {
+      return {
+        contents: { kind: "markdown", value: this.describe(decl) },
+        range,
+      };
+    }
+
+    const doc =
+      target.segments.length === 1 && BUILTIN_DOCS[target.token.value];
+    if (!doc) return null;
+
+    let value =
+      "```buildfile\n" + doc.signature + "\n```\n\n" + doc.description;
+    for (const [name, text] of Object.entries(doc.namedArgs ?? {})) {
+      value += `\n\n\`${name}:\` ${text}`;
+    }
+
+    return { contents: { kind: "markdown", value }, range };
+  }
+
+  // a code block showing how `decl` was declared
+  private describe(decl: Declaration): string {
+    const code = (text: string) => "```buildfile\n" + text + "\n```";
+
+    switch (decl.kind) {
+      case "param":
+        return code(`(parameter) ${decl.name}`);
+      case "loop":
+        return code(`(loop variable) ${decl.name}`);
+      case "task": {
+        const node = decl.node as ast.TaskDeclaration;
+        const deps = node.dependencies.map((d) =>
+          d.args.length > 0 ? `${d.name}(...)` : d.name,
+        );
+        const params = node.parameters.map((p) =>
+          p.defaultValue ? `${p.name} = ...` : p.name,
+        );
+        const name =
+          params.length > 0
+            ? `${node.symbol}(${params.join(", ")})`
+            : node.symbol;
+        const header =
+          deps.length === 0
+            ? `task ${name}`
+            : deps.length === 1
+              ? `task ${name} depends ${deps[0]}`
+              : `task ${name} depends (${deps.join(", ")})`;
+        return code(header) + (node.doc ? "\n\n" + node.doc : "");
+      }
+      case "fn": {
+        const node = decl.node as ast.FunctionDeclaration;
+        const params = node.parameters.map((p) =>
+          p.defaultValue ? `${p.name}: ...` : p.name,
+        );
+        return code(`fn ${node.symbol}(${params.join(", ")})`);
+      }
+      default: {
+        // declarations are shown as written, tools with all their options
+        const src = this.readSource(decl.file) ?? "";
+        const text = sliceSpan(src, decl.node!.span);
+        return code(decl.kind === "tool" ? text : text.split("\n")[0]);
+      }
+    }
+  }
+
+  private completion(uri: string, position: Position) {
+    const index = this.analyze(uri);
+    if (!index) return [];
+
+    const pos = { line: position.line + 1, col: position.character + 1 };
+    const tokens = index.tokens;
+
+    // the last token before the cursor, skipping the word being typed
+    let ctx = tokens.findLastIndex((tk) => !before(pos, tokenEnd(tk)));
+    if (
+      ctx !== -1 &&
+      tokens[ctx].type === TokenType.Identifier &&
+      tokens[ctx].endLine === pos.line &&
+      tokens[ctx].endCol === pos.col
+    ) {
+      ctx--;
+    }
+
+    const item = (decl: Declaration, label = decl.name) => ({
+      label,
+      kind: completionKind(decl.kind),
+      detail: decl.kind,
+    });
+
+    // ns.|
+    if (
+      ctx >= 1 &&
+      tokens[ctx].type === TokenType.Dot &&
+      tokens[ctx - 1].type === TokenType.Identifier
+    ) {
+      const ns = this.resolve(index, this.pathBefore(index, ctx - 1), pos);
+      if (ns?.kind !== "namespace" || !ns.module) return [];
+      return [...ns.module.declarations.values()]
+        .filter((d) => d.constant)
+        .map((d) => item(d));
+    }
+
+    // task x depends (a, |
+    if (this.inDependsClause(tokens, ctx)) {
+      const items = [];
+      for (const decl of index.declarations.values()) {
+        if (decl.kind === "task") items.push(item(decl));
+        if (decl.kind === "namespace" && decl.module) {
+          for (const member of decl.module.declarations.values()) {
+            if (member.kind === "task") {
+              items.push(item(member, `${decl.name}.${member.name}`));
+            }
+          }
+        }
+      }
+      return items;
+    }
+
+    const items: object[] = [];
+
+    for (const [name, text] of this.namedArgsAt(index, ctx, pos)) {
+      items.push({
+        label: `${name}:`,
+        kind: CompletionItemKind.Property,
+        detail: "named argument",
+        documentation: text,
+        insertText: `${name}: `,
+        sortText: "0" + name,
+      });
+    }
+
+    const visible = new Map<string, Declaration>(index.declarations);
+    for (const decl of this.localsAt(index, pos)) visible.set(decl.name, decl);
+    for (const decl of visible.values()) items.push(item(decl));
+
+    for (const name of createGlobalEnv(path.dirname(index.file))
+      .exports()
+      .keys()) {
+      if (visible.has(name)) continue;
+      const doc = BUILTIN_DOCS[name];
+      items.push({
+        label: name,
+        kind: doc ? CompletionItemKind.Function : CompletionItemKind.Constant,
+        detail: doc?.signature ?? "built-in",
+        documentation: doc?.description,
+      });
+    }
+
+    for (const keyword of Object.keys(KEYWORDS)) {
+      items.push({ label: keyword, kind: CompletionItemKind.Keyword });
+    }
+
+    return items;
+  }
+
+  private inDependsClause(tokens: Token[], i: number): boolean {
+    while (
+      i >= 0 &&
+      (tokens[i].type === TokenType.Identifier ||
+        tokens[i].type === TokenType.Dot ||
+        tokens[i].type === TokenType.Comma ||
+        tokens[i].type === TokenType.OParen)
+    ) {
+      i--;
+    }
+    return i >= 0 && tokens[i].type === TokenType.Depends;
+  }
+
+  // the named arguments accepted by the call the cursor is in, if any
+  private namedArgsAt(
+    index: ModuleIndex,
+    i: number,
+    pos: Pos,
+  ): [string, string][] {
+    // find the '(' of the innermost unclosed call
+    let depth = 0;
+    for (; i >= 0; i--) {
+      const type = index.tokens[i].type;
+      if (type === TokenType.CParen) depth++;
+      if (type === TokenType.OParen && depth-- === 0) break;
+      if (type === TokenType.OBrace || type === TokenType.CBrace) return [];
+    }
+
+    const callee = index.tokens[i - 1];
+    if (i < 1 || callee.type !== TokenType.Identifier) return [];
+
+    const decl = this.resolve(index, this.pathBefore(index, i - 1), pos);
+    if (decl?.kind === "fn") {
+      return (decl.node as ast.FunctionDeclaration).parameters
+        .filter((p) => p.defaultValue)
+        .map((p) => [p.name, `Parameter of ${decl.name}`]);
+    }
+
+    const doc = !decl && BUILTIN_DOCS[callee.value];
+    return doc ? Object.entries(doc.namedArgs ?? {}) : [];
+  }
+
+  private documentSymbols(uri: string) {
+    const index = this.analyze(uri);
+    if (!index) return [];
+
+    const symbols: object[] = [];
+
+    const collect = (body: ast.Stmt[]) => {
+      for (const stmt of body) {
+        if (stmt.kind === "IfStatement") {
+          const node = stmt as ast.IfStatement;
+          collect(node.body);
+          collect(node.elseBody ?? []);
+          continue;
+        }
+
+        const decl = this.declarationOf(index, stmt);
+        if (!decl) continue;
+
+        let detail: string | undefined;
+        if (stmt.kind === "TaskDeclaration") {
+          const deps = (stmt as ast.TaskDeclaration).dependencies;
+          if (deps.length > 0) {
+            detail = `depends ${deps.map((d) => d.name).join(", ")}`;
+          }
+        }
+
+        symbols.push({
+          name: decl.name,
+          detail,
+          kind: symbolKind(decl.kind),
+          range: toRange(stmt.span.start, stmt.span.end),
+          selectionRange: decl.nameRange,
+        });
+      }
+    };
+
+    collect(index.program.body);
+    return symbols;
+  }
+}
+
+function completionKind(kind: DeclKind): number {
+  switch (kind) {
+    case "task":
+      return CompletionItemKind.Event;
+    case "tool":
+      return CompletionItemKind.Class;
+    case "fn":
+      return CompletionItemKind.Function;
+    case "const":
+      return CompletionItemKind.Constant;
+    case "namespace":
+      return CompletionItemKind.Module;
+    default:
+      return CompletionItemKind.Variable;
+  }
+}
+
+function symbolKind(kind: DeclKind): number {
+  switch (kind) {
+    case "task":
+      return SymbolKind.Event;
+    case "tool":
+      return SymbolKind.Class;
+    case "fn":
+      return SymbolKind.Function;
+    case "const":
+      return SymbolKind.Constant;
+    case "namespace":
+      return SymbolKind.Module;
+    default:
+      return SymbolKind.Variable;
+  }
+}
@@ -0,0 +1,145 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import chalk from "chalk";
+
+export type OutputMode = "prefix" | "buffer";
+
+// where output meant for people goes: stdout, unless a reporter has taken
+// it over for machine-readable events
+let humanStream: NodeJS.WriteStream = process.stdout;
+
+// where the output of a running task goes. tasks running at the same time
+// each get their own so that their lines don't get mixed together
+export interface TaskOutput {
+  // child processes may write to the terminal directly
+  readonly inherit: boolean;
+  // a line about the task itself rather than something it printed
+  header(text: string): void;
+  stdout(text: string): void;
+  stderr(text: string): void;
+  // writes out anything still held back, called when the task ends
+  flush(): void;
+}
+
+// straight to the terminal, used when tasks run one at a time
+class DirectOutput implements TaskOutput {
+  public readonly inherit = true;
+
+  public header(text: string) {
+    humanStream.write(text + "\n");
+  }
+
+  public stdout(text: string) {
+    humanStream.write(text);
+  }
+
+  public stderr(text: string) {
+    process.stderr.write(text);
+  }
+
+  public flush() {}
+}
+
+// every line is written as soon as it's complete, prefixed with the task name
+class PrefixedOutput implements TaskOutput {
+  public readonly inherit = false;
+  private pending = { stdout: "", stderr: "" };
+
+  constructor(private prefix: string) {}
+
+  public header(text: string) {
+    humanStream.write(text + "\n");
+  }
+
+  public stdout(text: string) {
+    this.write("stdout", text);
+  }
+
+  public stderr(text: string) {
+    this.write("stderr", text);
+  }
+
+  private write(stream: "stdout" | "stderr", text: string) {
+    const lines = (this.pending[stream] + text).split("\n");
+    this.pending[stream] = lines.pop()!;
+
+    for (const line of lines) {
+      streamFor(stream).write(`${this.prefix} ${line}\n`);
+    }
+  }
+
+  public flush() {
+    for (const stream of ["stdout", "stderr"] as const) {
+      if (this.pending[stream]) this.write(stream, "\n");
+    }
+  }
+}
+
+// everything is held back and written in one go once the task ends
+class BufferedOutput implements TaskOutput {
+  public readonly inherit = false;
+  private chunks: { stream: "stdout" | "stderr"; text: string }[] = [];
+
+  // kept with the rest so it ends up above the task's output
+  public header(text: string) {
+    this.stdout(text + "\n");
+  }
+
+  public stdout(text: string) {
+    this.chunks.push({ stream: "stdout", text });
+  }
+
+  public stderr(text: string) {
+    this.chunks.push({ stream: "stderr", text });
+  }
+
+  public flush() {
+    for (const { stream, text } of this.chunks) {
+      streamFor(stream).write(text);
+    }
+    this.chunks = [];
+  }
+}
+
+// like console.log, keep going when whoever reads the output has gone away
+// (eg. `build | head`) instead of crashing on the write
+for (const stream of [process.stdout, process.stderr]) {
+  stream.on("error", (err: NodeJS.ErrnoException) => {
+    if (err.code !== "EPIPE") throw err;
+  });
+}
+
+function streamFor(stream: "stdout" | "stderr"): NodeJS.WriteStream {
+  return stream === "stdout" ? humanStream : process.stderr;
+}
+
+const direct = new DirectOutput();
+const storage = new AsyncLocalStorage<TaskOutput>();
+
+export function createTaskOutput(
+  taskName: string,
+  mode: OutputMode | "direct",
+  width: number,
+): TaskOutput {
+  if (mode === "direct") return direct;
+  if (mode === "buffer") return new BufferedOutput();
+
+  const label = `[${taskName}]`.padEnd(width + 2);
+  return new PrefixedOutput(humanStream.isTTY ? chalk.cyan(label) : label);
+}
+
+// the output of the task being run by the caller
+export function currentOutput(): TaskOutput {
+  return storage.getStore() ?? direct;
+}
+
+export function withOutput<T>(output: TaskOutput, fn: () => T): T {
+  return storage.run(output, fn);
+}
+
+export function humanOutput(): NodeJS.WriteStream {
+  return humanStream;
+}
+
+export function setHumanOutput(stream: NodeJS.WriteStream) {
+  humanStream = stream;
+}
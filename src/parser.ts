@@ -1,10 +1,46 @@
 import * as ast from "./ast.js";
 import { SyntaxError, EngineError } from "./errors.js";
 import { Token, TokenType } from "./lexer.js";
+import { Diagnostic, fromSyntaxError } from "./diagnostics.js";
+
+export interface ParseResult {
+  program: ast.Program; // partial if there are errors
+  diagnostics: Diagnostic[];
+}
+
+// tokens that can only start a top-level declaration
+const DECLARATION_TOKENS = new Set([
+  TokenType.Task,
+  TokenType.Tool,
+  TokenType.Import,
+  TokenType.AfterAll,
+  TokenType.Option,
+]);
+
+// what an option can hold, besides a list of strings
+const OPTION_TYPES = new Set(["bool", "number", "string"]);
+
+// what can be written as `name: value` at the top of a task body
+const TASK_PROPERTIES = new Set(["inputs", "outputs", "watch"]);
+
+// tokens that start a top-level statement when found at nesting level 0
+const TOP_LEVEL_TOKENS = new Set([
+  ...DECLARATION_TOKENS,
+  TokenType.Const,
+  TokenType.Let,
+  TokenType.Env,
+  TokenType.Fn,
+  TokenType.If,
+]);
 
 export class Parser {
   private pos: number = 0;
   private tokens: Token[] = [];
+  private loopDepth: number = 0;
+  private fnDepth: number = 0;
+  private inTaskBody: boolean = false; // directly, where hooks can go
+  private file: string = "<input>";
+  private diagnostics: Diagnostic[] = [];
 
   // helper functions
   private at(): Token {
@@ -24,54 +60,168 @@ export class Parser {
   }
 
   private expect(expected: TokenType): Token {
-    const prev = this.advance();
-    if (!prev || prev.type !== expected) {
+    // the unexpected token is left in place so error recovery can see it
+    const tk = this.at();
+    if (tk.type !== expected) {
       throw new SyntaxError(
-        `Expected ${TokenType[expected]}, got ${TokenType[prev.type]}`,
-        prev.line,
-        prev.col,
+        `Expected ${TokenType[expected]}, got ${TokenType[tk.type]}`,
+        tk.line,
+        tk.col,
       );
     }
-    return prev;
+    return this.advance();
+  }
+
+  private report(err: SyntaxError) {
+    this.diagnostics.push(fromSyntaxError(err, this.file));
+  }
+
+  // net number of '{' opened between two token positions
+  private braceDepth(from: number, to: number): number {
+    let depth = 0;
+    for (let i = from; i < to; i++) {
+      if (this.tokens[i].type === TokenType.OBrace) depth++;
+      else if (this.tokens[i].type === TokenType.CBrace) depth--;
+    }
+    return Math.max(0, depth);
+  }
+
+  // after an error in a top-level statement, skips to the next declaration
+  private syncTopLevel(stmtStart: number) {
+    if (this.pos === stmtStart) this.advance(); // always make progress
+    let depth = this.braceDepth(stmtStart, this.pos);
+
+    while (!this.isEOF()) {
+      const tk = this.at();
+
+      // task/tool/import can't be nested, so a missing '}' is the likely cause
+      if (DECLARATION_TOKENS.has(tk.type)) return;
+      if (depth === 0 && TOP_LEVEL_TOKENS.has(tk.type)) return;
+
+      if (tk.type === TokenType.OBrace) depth++;
+      else if (tk.type === TokenType.CBrace) depth = Math.max(0, depth - 1);
+      this.advance();
+    }
+  }
+
+  // after an error inside a block, skips to where the next statement probably
+  // starts: a new line at the same nesting level, or the end of the block
+  private syncStatement(stmtStart: number) {
+    if (this.pos === stmtStart) this.advance(); // always make progress
+    let depth = this.braceDepth(stmtStart, this.pos);
+
+    while (!this.isEOF()) {
+      const tk = this.at();
+
+      if (DECLARATION_TOKENS.has(tk.type)) return;
+      if (depth === 0) {
+        if (tk.type === TokenType.CBrace) return;
+        if (tk.line > this.previous().line) return;
+      }
+
+      if (tk.type === TokenType.OBrace) depth++;
+      else if (tk.type === TokenType.CBrace) depth--;
+      this.advance();
+    }
   }
 
   private isEOF(): boolean {
     return this.at().type === TokenType.EOF;
   }
 
-  public produceAST(tokens: Token[]): ast.Program {
+  // span from `start` up to the end of the last consumed token
+  private spanFrom(start: Token | ast.Stmt): ast.Span {
+    const end = this.previous() ?? this.at();
+    return {
+      file: this.file,
+      start:
+        "span" in start
+          ? start.span.start
+          : { line: start.line, col: start.col },
+      end: { line: end.endLine, col: end.endCol },
+    };
+  }
+
+  // parses a whole file, throwing on the first syntax error (with all of
+  // them attached as `diagnostics`)
+  public produceAST(tokens: Token[], file: string = "<input>"): ast.Program {
+    const { program, diagnostics } = this.parse(tokens, file);
+
+    const first = diagnostics.find((d) => d.severity === "error");
+    if (first) {
+      const err = new SyntaxError(first.message, first.line, first.col);
+      err.file = first.file;
+      err.diagnostics = diagnostics;
+      throw err;
+    }
+
+    return program;
+  }
+
+  // parses a whole file, recovering from syntax errors so that all of them
+  // can be reported at once
+  public parse(tokens: Token[], file: string = "<input>"): ParseResult {
     this.pos = 0;
     this.tokens = tokens;
+    this.loopDepth = 0;
+    this.fnDepth = 0;
+    this.inTaskBody = false;
+    this.file = file;
+    this.diagnostics = [];
 
     const program: ast.Program = {
       kind: "Program",
       body: [],
+      span: this.spanFrom(this.at()),
     };
 
     while (!this.isEOF()) {
-      switch (this.at().type) {
-        case TokenType.Let:
-        case TokenType.Const:
-        case TokenType.Env:
-          program.body.push(this.parseVarDecl());
-          break;
-        case TokenType.Tool:
-          program.body.push(this.parseToolDecl());
-          break;
-        case TokenType.Task:
-          program.body.push(this.parseTaskDecl());
-          break;
-        default:
-          const tk = this.at();
-          throw new SyntaxError(
-            `Unexpected token '${tk.value}'.`,
-            tk.line,
-            tk.col,
-          );
+      const stmtStart = this.pos;
+      try {
+        // imports, after_all and options are only allowed at the top level
+        // of a file
+        if (this.at().type === TokenType.Import) {
+          program.body.push(this.parseImportDecl());
+        } else if (this.at().type === TokenType.AfterAll) {
+          program.body.push(this.parseAfterAll());
+        } else if (this.at().type === TokenType.Option) {
+          program.body.push(this.parseOptionDecl());
+        } else {
+          program.body.push(this.parseTopLevelStmt());
+        }
+      } catch (e) {
+        if (!(e instanceof SyntaxError)) throw e;
+        this.report(e);
+        this.syncTopLevel(stmtStart);
       }
     }
 
-    return program;
+    program.span = this.spanFrom(tokens[0]);
+    return { program, diagnostics: this.diagnostics };
+  }
+
+  private parseTopLevelStmt(): ast.Stmt {
+    switch (this.at().type) {
+      case TokenType.Let:
+      case TokenType.Const:
+      case TokenType.Env:
+        return this.parseVarDecl();
+      case TokenType.Tool:
+        return this.parseToolDecl();
+      case TokenType.Task:
+        return this.parseTaskDecl();
+      case TokenType.Fn:
+        return this.parseFnDecl();
+      case TokenType.If:
+        return this.parseIfStmt(true);
+      default:
+        const tk = this.at();
+        throw new SyntaxError(
+          `Unexpected token '${tk.value}'.`,
+          tk.line,
+          tk.col,
+        );
+    }
   }
 
   private parseStmt(): ast.Stmt {
@@ -83,18 +233,42 @@ export class Parser {
       case TokenType.Plat:
       case TokenType.Arch:
         return this.parsePlatformBlock();
+      case TokenType.If:
+        return this.parseIfStmt(false);
+      case TokenType.While:
+        return this.parseWhileStmt();
+      case TokenType.For:
+        return this.parseForInStmt();
+      case TokenType.Break:
+      case TokenType.Continue:
+        return this.parseLoopControlStmt();
+      case TokenType.Fn:
+        return this.parseFnDecl();
+      case TokenType.Return:
+        return this.parseReturnStmt();
+      case TokenType.Try:
+        return this.parseTryStmt();
+      case TokenType.OnFailure:
+      case TokenType.Finally:
+        return this.parseTaskHook();
       default:
         return this.parseExpr();
     }
   }
 
   private parseTaskDecl(): ast.Stmt {
-    this.expect(TokenType.Task);
+    const start = this.expect(TokenType.Task);
 
     const nameToken = this.expect(TokenType.Identifier);
     const taskName = nameToken.value;
 
-    const dependencies: string[] = [];
+    // optional: (target, region = "eu-west-1")
+    const parameters =
+      this.at().type === TokenType.OParen
+        ? this.parseParams(`task '${taskName}'`, TokenType.Equals)
+        : [];
+
+    const dependencies: ast.TaskDependency[] = [];
 
     // optional: depends ...
     if (this.at().type === TokenType.Depends) {
@@ -104,67 +278,376 @@ export class Parser {
         // depends (a, b, c)
         this.advance(); // consume '('
 
-        dependencies.push(this.expect(TokenType.Identifier).value);
+        dependencies.push(this.parseTaskDependency());
 
         while (this.at().type === TokenType.Comma) {
           this.advance(); // consume ','
-          dependencies.push(this.expect(TokenType.Identifier).value);
+          dependencies.push(this.parseTaskDependency());
         }
 
         this.expect(TokenType.CParen);
       } else {
         // depends xyz
-        dependencies.push(this.expect(TokenType.Identifier).value);
+        dependencies.push(this.parseTaskDependency());
       }
     }
 
     const seen = new Set<string>();
 
     for (const dep of dependencies) {
-      if (dep === taskName) {
-        throw new SyntaxError(
-          `Task '${taskName}' cannot depend on itself`,
-          nameToken.line,
-          nameToken.col,
+      // these don't derail parsing, so they're reported without throwing
+      if (dep.name === taskName) {
+        this.report(
+          new SyntaxError(
+            `Task '${taskName}' cannot depend on itself`,
+            nameToken.line,
+            nameToken.col,
+          ),
         );
       }
 
-      if (seen.has(dep)) {
-        throw new SyntaxError(
-          `Duplicate dependency '${dep}' in task '${taskName}'`,
-          nameToken.line,
-          nameToken.col,
+      // the same task with different arguments is a different dependency
+      if (dep.args.length > 0) continue;
+
+      if (seen.has(dep.name)) {
+        this.report(
+          new SyntaxError(
+            `Duplicate dependency '${dep.name}' in task '${taskName}'`,
+            nameToken.line,
+            nameToken.col,
+          ),
         );
       }
 
-      seen.add(dep);
+      seen.add(dep.name);
     }
 
     this.expect(TokenType.OBrace);
+    const properties = this.parseTaskProperties();
+
+    let stmts: ast.Stmt[];
+    this.inTaskBody = true;
+    try {
+      stmts = this.parseBlockBody(false);
+    } finally {
+      this.inTaskBody = false;
+    }
 
     const body: ast.Stmt[] = [];
+    const hooks: ast.TaskHook[] = [];
+
+    for (const stmt of stmts) {
+      if (stmt.kind !== "TaskHook") {
+        if (hooks.length > 0) {
+          this.report(
+            new SyntaxError(
+              `Statements can't follow the ${hooks.at(-1)!.hook} block of task '${taskName}'`,
+              stmt.span.start.line,
+              stmt.span.start.col,
+            ),
+          );
+        }
+        body.push(stmt);
+        continue;
+      }
 
-    while (!this.isEOF() && this.at().type !== TokenType.CBrace) {
-      body.push(this.parseStmt());
+      const hook = stmt as ast.TaskHook;
+      if (hooks.some((h) => h.hook === hook.hook)) {
+        this.report(
+          new SyntaxError(
+            `Duplicate ${hook.hook} block in task '${taskName}'`,
+            hook.span.start.line,
+            hook.span.start.col,
+          ),
+        );
+      }
+      hooks.push(hook);
     }
 
-    this.expect(TokenType.CBrace);
-
     return {
       kind: "TaskDeclaration",
       symbol: taskName,
+      parameters,
       dependencies,
+      properties,
+      doc: start.doc ?? null,
       body,
+      hooks,
+      span: this.spanFrom(start),
     } as ast.TaskDeclaration;
   }
 
+  // on_failure { ... } | finally { ... }
+  private parseTaskHook(): ast.Stmt {
+    const start = this.advance();
+
+    if (!this.inTaskBody) {
+      throw new SyntaxError(
+        `'${start.value}' can only be used directly in a task`,
+        start.line,
+        start.col,
+      );
+    }
+
+    return {
+      kind: "TaskHook",
+      hook: start.value,
+      body: this.parseBlock(false),
+      span: this.spanFrom(start),
+    } as ast.TaskHook;
+  }
+
+  // after_all { ... }
+  private parseAfterAll(): ast.Stmt {
+    const start = this.expect(TokenType.AfterAll);
+    return {
+      kind: "AfterAllBlock",
+      body: this.parseBlock(false),
+      span: this.spanFrom(start),
+    } as ast.AfterAllBlock;
+  }
+
+  // option release: bool = false
+  // option channel: "stable" | "beta" = "stable"
+  private parseOptionDecl(): ast.Stmt {
+    const start = this.expect(TokenType.Option);
+    const symbol = this.expect(TokenType.Identifier).value;
+    this.expect(TokenType.Colon);
+
+    let valueType: ast.OptionType = "string";
+    let choices: string[] | null = null;
+
+    if (this.at().type === TokenType.String) {
+      choices = [this.advance().value];
+      while (this.at().type === TokenType.Pipe) {
+        this.advance(); // |
+        choices.push(this.expect(TokenType.String).value);
+      }
+    } else {
+      const typeToken = this.expect(TokenType.Identifier);
+      if (!OPTION_TYPES.has(typeToken.value)) {
+        throw new SyntaxError(
+          `Unknown option type '${typeToken.value}', expected bool, number, string or a list of strings`,
+          typeToken.line,
+          typeToken.col,
+        );
+      }
+      valueType = typeToken.value as ast.OptionType;
+    }
+
+    this.expect(TokenType.Equals);
+
+    return {
+      kind: "OptionDeclaration",
+      symbol,
+      valueType,
+      choices,
+      defaultValue: this.parseExpr(),
+      doc: start.doc ?? null,
+      span: this.spanFrom(start),
+    } as ast.OptionDeclaration;
+  }
+
+  // inputs: glob("src/**/*.ts")
+  private parseTaskProperties(): ast.TaskProperty[] {
+    const properties: ast.TaskProperty[] = [];
+
+    while (
+      this.at().type === TokenType.Identifier &&
+      this.peek().type === TokenType.Colon
+    ) {
+      const nameToken = this.advance();
+      this.advance(); // consume ':'
+
+      const name = nameToken.value;
+      if (!TASK_PROPERTIES.has(name)) {
+        this.report(
+          new SyntaxError(
+            `Unknown task property '${name}'`,
+            nameToken.line,
+            nameToken.col,
+          ),
+        );
+      } else if (properties.some((p) => p.name === name)) {
+        this.report(
+          new SyntaxError(
+            `Duplicate task property '${name}'`,
+            nameToken.line,
+            nameToken.col,
+          ),
+        );
+      }
+
+      const value = this.parseExpr();
+      properties.push({
+        kind: "TaskProperty",
+        name,
+        value,
+        span: this.spanFrom(nameToken),
+      } as ast.TaskProperty);
+    }
+
+    return properties;
+  }
+
+  // build | build(mode: "release")
+  private parseTaskDependency(): ast.TaskDependency {
+    const start = this.at();
+    const name = this.parseTaskRef();
+    const args: ast.Expr[] = [];
+
+    if (this.at().type === TokenType.OParen) {
+      this.advance(); // (
+
+      while (!this.isEOF() && this.at().type !== TokenType.CParen) {
+        const arg = this.parseCallArgument();
+        if (arg.kind === "SpreadElement") {
+          throw new SyntaxError(
+            `Arguments can't be spread into task '${name}'`,
+            arg.span.start.line,
+            arg.span.start.col,
+          );
+        }
+        args.push(arg);
+
+        if (this.at().type !== TokenType.CParen) {
+          this.expect(TokenType.Comma);
+        }
+      }
+
+      this.expect(TokenType.CParen);
+    }
+
+    return { name, args, span: this.spanFrom(start) };
+  }
+
+  // task name, optionally namespaced: build | docker.build
+  private parseTaskRef(): string {
+    let name = this.expect(TokenType.Identifier).value;
+
+    while (this.at().type === TokenType.Dot) {
+      this.advance(); // .
+      name += "." + this.expect(TokenType.Identifier).value;
+    }
+
+    return name;
+  }
+
+  private parseImportDecl(): ast.Stmt {
+    // import "./path"
+    // import "./path" as name
+    const start = this.expect(TokenType.Import);
+
+    const pathToken = this.expect(TokenType.String);
+    let alias: string | null = null;
+
+    if (this.at().type === TokenType.As) {
+      this.advance(); // as
+      alias = this.expect(TokenType.Identifier).value;
+    }
+
+    return {
+      kind: "ImportDeclaration",
+      path: pathToken.value,
+      alias,
+      span: this.spanFrom(start),
+    } as ast.ImportDeclaration;
+  }
+
+  private parseFnDecl(): ast.Stmt {
+    // fn name(a, b, named: default) { ... }
+    const start = this.expect(TokenType.Fn);
+
+    const symbol = this.expect(TokenType.Identifier).value;
+    const parameters = this.parseParams(
+      `function '${symbol}'`,
+      TokenType.Colon,
+    );
+
+    // loops outside the function can't be broken out of from inside it
+    const outerLoopDepth = this.loopDepth;
+    this.loopDepth = 0;
+    this.fnDepth++;
+
+    const body = this.parseBlock(false);
+
+    this.fnDepth--;
+    this.loopDepth = outerLoopDepth;
+
+    return {
+      kind: "FunctionDeclaration",
+      symbol,
+      parameters,
+      body,
+      span: this.spanFrom(start),
+    } as ast.FunctionDeclaration;
+  }
+
+  // (a, b, named: default) for functions, (a, b = default) for tasks
+  private parseParams(
+    owner: string,
+    defaultSeparator: TokenType,
+  ): ast.FunctionParam[] {
+    const parameters: ast.FunctionParam[] = [];
+
+    this.expect(TokenType.OParen);
+
+    while (!this.isEOF() && this.at().type !== TokenType.CParen) {
+      const nameToken = this.expect(TokenType.Identifier);
+
+      if (parameters.some((p) => p.name === nameToken.value)) {
+        throw new SyntaxError(
+          `Duplicate parameter '${nameToken.value}' in ${owner}`,
+          nameToken.line,
+          nameToken.col,
+        );
+      }
+
+      let defaultValue: ast.Expr | null = null;
+      if (this.at().type === defaultSeparator) {
+        this.advance(); // : or =
+        defaultValue = this.parseExpr();
+      }
+
+      parameters.push({ name: nameToken.value, defaultValue });
+
+      if (this.at().type !== TokenType.CParen) {
+        this.expect(TokenType.Comma);
+      }
+    }
+
+    this.expect(TokenType.CParen);
+    return parameters;
+  }
+
+  private parseReturnStmt(): ast.Stmt {
+    const tk = this.expect(TokenType.Return);
+
+    if (this.fnDepth === 0) {
+      throw new SyntaxError(
+        "'return' can only be used inside a function",
+        tk.line,
+        tk.col,
+      );
+    }
+
+    // 'return' without a value has to be the last statement of its block
+    const value = this.at().type === TokenType.CBrace ? null : this.parseExpr();
+
+    return {
+      kind: "ReturnStatement",
+      value,
+      span: this.spanFrom(tk),
+    } as ast.ReturnStatement;
+  }
+
   private parseToolDecl(): ast.Stmt {
     // tool name {
     //   platform: value
     //   [platform, arch]: value
     // }
 
-    this.expect(TokenType.Tool);
+    const start = this.expect(TokenType.Tool);
 
     const toolName = this.expect(TokenType.Identifier);
     this.expect(TokenType.OBrace);
@@ -212,6 +695,7 @@ export class Parser {
       kind: "ToolDeclaration",
       symbol: toolName.value,
       options,
+      span: this.spanFrom(start),
     } as ast.ToolDeclaration;
   }
 
@@ -244,6 +728,7 @@ export class Parser {
       isEnv,
       identifier,
       value,
+      span: this.spanFrom(prefix),
     } as ast.VarDeclaration;
   }
 
@@ -252,7 +737,7 @@ export class Parser {
   }
 
   private parseAssignmentExpr(): ast.Expr {
-    const assignee = this.parseAdditiveExpr();
+    const assignee = this.parseLogicalOrExpr();
 
     if (this.at().type === TokenType.Equals) {
       this.advance();
@@ -261,12 +746,98 @@ export class Parser {
         value,
         assignee,
         kind: "AssignmentExpr",
+        span: this.spanFrom(assignee),
       } as ast.AssignmentExpr;
     }
 
     return assignee;
   }
 
+  private parseLogicalOrExpr(): ast.Expr {
+    let left = this.parseLogicalAndExpr();
+
+    while (
+      this.at().type === TokenType.LogicalOperator &&
+      this.at().value === "||"
+    ) {
+      this.advance();
+      const right = this.parseLogicalAndExpr();
+
+      left = {
+        kind: "LogicalExpr",
+        left,
+        right,
+        operator: "||",
+        span: this.spanFrom(left),
+      } as ast.LogicalExpr;
+    }
+    return left;
+  }
+
+  private parseLogicalAndExpr(): ast.Expr {
+    let left = this.parseEqualityExpr();
+
+    while (
+      this.at().type === TokenType.LogicalOperator &&
+      this.at().value === "&&"
+    ) {
+      this.advance();
+      const right = this.parseEqualityExpr();
+
+      left = {
+        kind: "LogicalExpr",
+        left,
+        right,
+        operator: "&&",
+        span: this.spanFrom(left),
+      } as ast.LogicalExpr;
+    }
+    return left;
+  }
+
+  private parseEqualityExpr(): ast.Expr {
+    let left = this.parseRelationalExpr();
+
+    while (
+      this.at().type === TokenType.ComparisonOperator &&
+      (this.at().value === "==" || this.at().value === "!=")
+    ) {
+      const operator = this.advance().value;
+      const right = this.parseRelationalExpr();
+
+      left = {
+        kind: "BinaryExpr",
+        left,
+        right,
+        operator,
+        span: this.spanFrom(left),
+      } as ast.BinaryExpr;
+    }
+    return left;
+  }
+
+  private parseRelationalExpr(): ast.Expr {
+    let left = this.parseAdditiveExpr();
+
+    while (
+      this.at().type === TokenType.ComparisonOperator &&
+      this.at().value !== "==" &&
+      this.at().value !== "!="
+    ) {
+      const operator = this.advance().value;
+      const right = this.parseAdditiveExpr();
+
+      left = {
+        kind: "BinaryExpr",
+        left,
+        right,
+        operator,
+        span: this.spanFrom(left),
+      } as ast.BinaryExpr;
+    }
+    return left;
+  }
+
   private parseAdditiveExpr(): ast.Expr {
     let lhs = this.parseMultiplicativeExpr();
 
@@ -279,13 +850,14 @@ export class Parser {
         left: lhs,
         right: rhs,
         operator,
+        span: this.spanFrom(lhs),
       } as ast.BinaryExpr;
     }
     return lhs;
   }
 
   private parseMultiplicativeExpr(): ast.Expr {
-    let left = this.parseCallExpr();
+    let left = this.parseUnaryExpr();
 
     while (
       this.at().value === "*" ||
@@ -293,45 +865,109 @@ export class Parser {
       this.at().value === "%"
     ) {
       const operator = this.advance().value;
-      const right = this.parseCallExpr();
+      const right = this.parseUnaryExpr();
 
       left = {
         kind: "BinaryExpr",
         left,
         right,
         operator,
+        span: this.spanFrom(left),
       } as ast.BinaryExpr;
     }
     return left;
   }
 
-  private parseCallExpr(): ast.Expr {
-    let expr = this.parsePrimaryExpr();
+  private parseUnaryExpr(): ast.Expr {
+    // !x, -x
+    if (
+      this.at().type === TokenType.UnaryOperator ||
+      (this.at().type === TokenType.BinaryOperator && this.at().value === "-")
+    ) {
+      const start = this.advance();
+      const argument = this.parseUnaryExpr();
+      return {
+        kind: "UnaryExpr",
+        operator: start.value,
+        argument,
+        span: this.spanFrom(start),
+      } as ast.UnaryExpr;
+    }
 
-    while (this.at().type === TokenType.OParen) {
-      this.advance();
+    return this.parseCallMemberExpr();
+  }
 
-      const args: ast.Expr[] = [];
+  private parseCallMemberExpr(): ast.Expr {
+    let expr = this.parsePrimaryExpr();
 
-      if (this.at().type !== TokenType.CParen) {
-        args.push(this.parseCallArgument());
+    while (true) {
+      if (this.at().type === TokenType.OParen) {
+        expr = this.parseCallArgs(expr);
+      } else if (this.at().type === TokenType.Dot) {
+        // obj.name
+        this.advance(); // .
+        const property = this.expect(TokenType.Identifier);
+
+        expr = {
+          kind: "MemberExpr",
+          object: expr,
+          property: {
+            kind: "Identifier",
+            symbol: property.value,
+            span: this.spanFrom(property),
+          } as ast.Identifier,
+          computed: false,
+          span: this.spanFrom(expr),
+        } as ast.MemberExpr;
+      } else if (
+        this.at().type === TokenType.OBracket &&
+        this.at().line === this.previous().line
+      ) {
+        // obj[expr], only on the same line so that a following
+        // [platform, arch] tool option isn't read as an index
+        this.advance(); // [
+        const property = this.parseExpr();
+        this.expect(TokenType.CBracket);
 
-        while (this.at().type === TokenType.Comma) {
-          this.advance();
-          args.push(this.parseCallArgument());
-        }
+        expr = {
+          kind: "MemberExpr",
+          object: expr,
+          property,
+          computed: true,
+          span: this.spanFrom(expr),
+        } as ast.MemberExpr;
+      } else {
+        break;
       }
+    }
 
-      this.expect(TokenType.CParen);
+    return expr;
+  }
 
-      expr = {
-        kind: "CallExpr",
-        callee: expr,
-        args,
-      } as ast.CallExpr;
+  private parseCallArgs(callee: ast.Expr): ast.Expr {
+    this.expect(TokenType.OParen);
+
+    const args: ast.Expr[] = [];
+
+    if (this.at().type !== TokenType.CParen) {
+      args.push(this.parseCallArgument());
+
+      while (this.at().type === TokenType.Comma) {
+        this.advance();
+        // allows a trailing comma
+        if (this.at().type === TokenType.CParen) break;
+        args.push(this.parseCallArgument());
+      }
     }
 
-    return expr;
+    this.expect(TokenType.CParen);
+
+    return {
+      kind: "CallExpr",
+      callee,
+      args,
+      span: this.spanFrom(callee),
+    } as ast.CallExpr;
   }
 
   private parseCallArgument(): ast.Expr {
@@ -340,11 +976,13 @@ export class Parser {
       this.at().type === TokenType.Dot &&
       this.peek().type === TokenType.Dot
     ) {
+      const start = this.at();
       for (let i = 3; i--; this.expect(TokenType.Dot)) {} // consume ...
       const arg = this.parseExpr();
       return {
         kind: "SpreadElement",
         argument: arg,
+        span: this.spanFrom(start),
       } as ast.SpreadElement;
     }
 
@@ -353,14 +991,15 @@ export class Parser {
       this.at().type === TokenType.Identifier &&
       this.peek().type === TokenType.Colon
     ) {
-      const name = this.advance().value;
+      const nameToken = this.advance();
       this.advance(); // ':'
       const value = this.parseExpr();
 
       return {
         kind: "NamedArg",
-        name,
+        name: nameToken.value,
         value,
+        span: this.spanFrom(nameToken),
       } as ast.NamedArg;
     }
 
@@ -375,28 +1014,14 @@ export class Parser {
     const nameToken = this.expect(TokenType.Identifier);
     const symbol = nameToken.value;
 
-    this.expect(TokenType.OBrace);
-
-    const body: ast.Stmt[] = [];
-    while (!this.isEOF() && this.at().type !== TokenType.CBrace) {
-      body.push(this.parseStmt());
-    }
-
-    this.expect(TokenType.CBrace);
+    const body = this.parseBlock(false);
 
     let elseBody: ast.Stmt[] | undefined;
 
     // optional else {...}
     if (this.at().type === TokenType.Else) {
       this.advance(); // else
-      this.expect(TokenType.OBrace);
-
-      elseBody = [];
-      while (!this.isEOF() && this.at().type !== TokenType.CBrace) {
-        elseBody.push(this.parseStmt());
-      }
-
-      this.expect(TokenType.CBrace);
+      elseBody = this.parseBlock(false);
     }
 
     return {
@@ -405,37 +1030,270 @@ export class Parser {
       symbol,
       body,
       elseBody,
+      span: this.spanFrom(token),
     } as ast.PlatformBlock;
   }
 
+  private parseIfStmt(topLevel: boolean): ast.Stmt {
+    // if (cond) { ... } else if (cond) { ... } else { ... }
+    const start = this.expect(TokenType.If);
+
+    this.expect(TokenType.OParen);
+    const condition = this.parseExpr();
+    this.expect(TokenType.CParen);
+
+    const body = this.parseBlock(topLevel);
+
+    let elseBody: ast.Stmt[] | undefined;
+
+    if (this.at().type === TokenType.Else) {
+      this.advance(); // else
+
+      if (this.at().type === TokenType.If) {
+        // else if (...) { ... }
+        elseBody = [this.parseIfStmt(topLevel)];
+      } else {
+        elseBody = this.parseBlock(topLevel);
+      }
+    }
+
+    return {
+      kind: "IfStatement",
+      condition,
+      body,
+      elseBody,
+      span: this.spanFrom(start),
+    } as ast.IfStatement;
+  }
+
+  private parseTryStmt(): ast.Stmt {
+    // try { ... } catch (err) { ... } | try { ... } catch { ... }
+    const start = this.expect(TokenType.Try);
+    const body = this.parseBlock(false);
+
+    this.expect(TokenType.Catch);
+    let param: string | null = null;
+    if (this.at().type === TokenType.OParen) {
+      this.advance(); // (
+      param = this.expect(TokenType.Identifier).value;
+      this.expect(TokenType.CParen);
+    }
+
+    const handler = this.parseBlock(false);
+
+    return {
+      kind: "TryStatement",
+      body,
+      param,
+      handler,
+      span: this.spanFrom(start),
+    } as ast.TryStatement;
+  }
+
+  private parseWhileStmt(): ast.Stmt {
+    // while (cond) { ... }
+    const start = this.expect(TokenType.While);
+
+    this.expect(TokenType.OParen);
+    const condition = this.parseExpr();
+    this.expect(TokenType.CParen);
+
+    const body = this.parseLoopBody();
+
+    return {
+      kind: "WhileStatement",
+      condition,
+      body,
+      span: this.spanFrom(start),
+    } as ast.WhileStatement;
+  }
+
+  private parseForInStmt(): ast.Stmt {
+    // for (item in iterable) { ... }
+    const start = this.expect(TokenType.For);
+
+    this.expect(TokenType.OParen);
+    const variable = this.expect(TokenType.Identifier).value;
+    this.expect(TokenType.In);
+    const iterable = this.parseExpr();
+    this.expect(TokenType.CParen);
+
+    const body = this.parseLoopBody();
+
+    return {
+      kind: "ForInStatement",
+      variable,
+      iterable,
+      body,
+      span: this.spanFrom(start),
+    } as ast.ForInStatement;
+  }
+
+  private parseLoopBody(): ast.Stmt[] {
+    this.loopDepth++;
+    const body = this.parseBlock(false);
+    this.loopDepth--;
+    return body;
+  }
+
+  private parseLoopControlStmt(): ast.Stmt {
+    const tk = this.advance(); // break or continue
+
+    if (this.loopDepth === 0) {
+      throw new SyntaxError(
+        `'${tk.value}' can only be used inside a loop`,
+        tk.line,
+        tk.col,
+      );
+    }
+
+    return {
+      kind:
+        tk.type === TokenType.Break ? "BreakStatement" : "ContinueStatement",
+      span: this.spanFrom(tk),
+    } as ast.BreakStatement | ast.ContinueStatement;
+  }
+
+  // { stmt* }, top-level blocks only accept top-level statements
+  private parseBlock(topLevel: boolean): ast.Stmt[] {
+    this.expect(TokenType.OBrace);
+
+    // hooks belong to the task, not to blocks nested in it
+    const inTaskBody = this.inTaskBody;
+    this.inTaskBody = false;
+    try {
+      return this.parseBlockBody(topLevel);
+    } finally {
+      this.inTaskBody = inTaskBody;
+    }
+  }
+
+  // the statements of a block whose '{' has been consumed, and its '}'
+  private parseBlockBody(topLevel: boolean): ast.Stmt[] {
+    const body: ast.Stmt[] = [];
+    while (!this.isEOF() && this.at().type !== TokenType.CBrace) {
+      // a declaration here means this block is missing its '}'
+      if (!topLevel && DECLARATION_TOKENS.has(this.at().type)) break;
+
+      const stmtStart = this.pos;
+      try {
+        body.push(topLevel ? this.parseTopLevelStmt() : this.parseStmt());
+      } catch (e) {
+        if (!(e instanceof SyntaxError)) throw e;
+        this.report(e);
+        this.syncStatement(stmtStart);
+      }
+    }
+
+    this.expect(TokenType.CBrace);
+    return body;
+  }
+
   private parseArrayElement(): ast.Expr {
     if (
       this.at().type === TokenType.Dot &&
       this.peek().type === TokenType.Dot
     ) {
+      const start = this.at();
       for (let i = 3; i--; this.expect(TokenType.Dot)) {} // consume ...
       const arg = this.parseExpr();
       return {
         kind: "SpreadElement",
         argument: arg,
+        span: this.spanFrom(start),
       } as ast.SpreadElement;
     }
     return this.parseExpr();
   }
 
+  // parses the tokens of a single ${...} with a fresh parser
+  private parseTemplateExpr(tokens: Token[]): ast.Expr {
+    const parser = new Parser();
+    parser.tokens = tokens;
+    parser.file = this.file;
+
+    const first = parser.at();
+    if (parser.isEOF()) {
+      throw new SyntaxError(
+        "Empty expression in template string",
+        first.line,
+        first.col,
+      );
+    }
+
+    const expr = parser.parseExpr();
+
+    if (!parser.isEOF()) {
+      const tk = parser.at();
+      throw new SyntaxError(
+        `Unexpected token '${tk.value}' in template expression`,
+        tk.line,
+        tk.col,
+      );
+    }
+
+    return expr;
+  }
+
+  private parseObjectLiteral(): ast.Expr {
+    // { key: value, "other-key": value }
+    const start = this.expect(TokenType.OBrace);
+
+    const properties: ast.Property[] = [];
+
+    while (!this.isEOF() && this.at().type !== TokenType.CBrace) {
+      const keyToken = this.advance();
+      if (
+        keyToken.type !== TokenType.Identifier &&
+        keyToken.type !== TokenType.String
+      ) {
+        throw new SyntaxError(
+          `Expected a property name, got '${keyToken.value}'`,
+          keyToken.line,
+          keyToken.col,
+        );
+      }
+
+      this.expect(TokenType.Colon);
+      const value = this.parseExpr();
+
+      properties.push({
+        kind: "Property",
+        key: keyToken.value,
+        value,
+        span: this.spanFrom(keyToken),
+      } as ast.Property);
+
+      // allows a trailing comma
+      if (this.at().type !== TokenType.CBrace) {
+        this.expect(TokenType.Comma);
+      }
+    }
+
+    this.expect(TokenType.CBrace);
+
+    return {
+      kind: "ObjectLiteral",
+      properties,
+      span: this.spanFrom(start),
+    } as ast.ObjectLiteral;
+  }
+
   private parsePrimaryExpr(): ast.Expr {
-    const type = this.at().type;
+    const start = this.at();
     let value;
-    switch (type) {
+    switch (start.type) {
       case TokenType.Identifier:
         return {
           kind: "Identifier",
           symbol: this.advance().value,
+          span: this.spanFrom(start),
         } as ast.Identifier;
       case TokenType.Number:
         return {
           kind: "NumericLiteral",
           value: parseFloat(this.advance().value),
+          span: this.spanFrom(start),
         } as ast.NumericLiteral;
       case TokenType.OParen:
         this.advance();
@@ -446,7 +1304,21 @@ export class Parser {
         return {
           kind: "StringLiteral",
           value: this.advance().value,
+          span: this.spanFrom(start),
         } as ast.StringLiteral;
+      case TokenType.TemplateString: {
+        const tk = this.advance();
+        const { segments, expressions } = tk.template!;
+        return {
+          kind: "TemplateLiteral",
+          raw: tk.value,
+          segments,
+          expressions: expressions.map((tokens) =>
+            this.parseTemplateExpr(tokens),
+          ),
+          span: this.spanFrom(tk),
+        } as ast.TemplateLiteral;
+      }
       case TokenType.OBracket: {
         // for arrays
         this.advance(); // [
@@ -455,6 +1327,8 @@ export class Parser {
           elems.push(this.parseArrayElement());
           while (this.at().type === TokenType.Comma) {
             this.advance();
+            // allows a trailing comma
+            if (this.at().type === TokenType.CBracket) break;
             elems.push(this.parseArrayElement());
           }
         }
@@ -463,8 +1337,11 @@ export class Parser {
         return {
           kind: "ArrayLiteral",
           elements: elems,
+          span: this.spanFrom(start),
         } as ast.ArrayLiteral;
       }
+      case TokenType.OBrace:
+        return this.parseObjectLiteral();
       default:
         const tk = this.at();
         throw new SyntaxError(
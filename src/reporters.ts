@@ -0,0 +1,52 @@
+import chalk from "chalk";
+import { BuildEvents } from "./events.js";
+import { currentOutput } from "./output.js";
+
+export type ReporterName = "human" | "json";
+export const REPORTERS: ReporterName[] = ["human", "json"];
+
+// the lines a run has always printed: which task is running or skipped,
+// and warnings. they go to the output of the task that emitted them. under
+// --dry-run, a task that the cache has is only looked up, not restored
+export function humanReporter(
+  events: BuildEvents,
+  explain: boolean,
+  dryRun: boolean,
+) {
+  events.on("task-start", ({ task, reason }) => {
+    const why = explain && reason ? ` (${reason})` : "";
+    currentOutput().header(`\n> Running task: ${task}${why}`);
+  });
+
+  events.on("task-end", ({ task, status }) => {
+    if (status === "up to date") {
+      currentOutput().header(`\n> Skipping task: ${task} (up to date)`);
+    } else if (status === "restored" && dryRun) {
+      currentOutput().header(`\n> Would restore task: ${task} (from cache)`);
+    } else if (status === "restored") {
+      currentOutput().header(`\n> Restored task: ${task} (from cache)`);
+    }
+  });
+
+  events.on("hook-start", ({ task, hook }) => {
+    const of = task ? ` of task: ${task}` : "";
+    currentOutput().header(`\n> Running ${hook}${of}`);
+  });
+
+  events.on("warn", ({ message }) => {
+    const text = process.stderr.isTTY ? chalk.yellow(message) : message;
+    currentOutput().stderr(text + "\n");
+  });
+}
+
+// one JSON object per line and event, for CI and dashboards:
+// {"event":"task-end","time":"...","task":"build","status":"ran",...}
+export function jsonReporter(
+  events: BuildEvents,
+  write: (line: string) => void,
+) {
+  events.onAny((name, event) => {
+    const time = new Date().toISOString();
+    write(JSON.stringify({ event: name, time, ...event }) + "\n");
+  });
+}
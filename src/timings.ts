@@ -0,0 +1,204 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { performance } from "node:perf_hooks";
+import chalk from "chalk";
+import { humanOutput } from "./output.js";
+
+// how a task ended, shown next to its time
+export type TaskStatus = "ran" | "up to date" | "restored" | "failed";
+
+export interface TaskTiming {
+  name: string;
+  start: number; // ms since the run started
+  duration: number; // ms
+  lane: number; // which of the --jobs slots ran it
+  status: TaskStatus;
+}
+
+export interface CommandTiming {
+  command: string; // the program and its arguments
+  task: string;
+  start: number;
+  duration: number;
+  lane: number;
+}
+
+// the task being timed by the caller, so that exec knows whose it is
+interface RunningTask {
+  timings: Timings;
+  name: string;
+  lane: number;
+}
+
+const storage = new AsyncLocalStorage<RunningTask>();
+
+// how long each task of a run took and the commands it ran, recorded
+// whether or not anyone asks for them
+export class Timings {
+  public readonly tasks: TaskTiming[] = [];
+  public readonly commands: CommandTiming[] = [];
+  private origin = performance.now();
+  private end: number | null = null;
+  private lanes: boolean[] = []; // busy or not
+
+  // runs `fn` as the task `name`, it resolves to how the task ended
+  public async task(name: string, fn: () => Promise<TaskStatus>) {
+    let lane = this.lanes.indexOf(false);
+    if (lane === -1) lane = this.lanes.length;
+    this.lanes[lane] = true;
+
+    const start = this.now();
+    let status: TaskStatus = "failed";
+    try {
+      status = await storage.run({ timings: this, name, lane }, fn);
+    } finally {
+      this.lanes[lane] = false;
+      this.tasks.push({
+        name,
+        start,
+        duration: this.now() - start,
+        lane,
+        status,
+      });
+    }
+  }
+
+  // records a command of the running task
+  public async command<T>(
+    running: RunningTask,
+    command: string,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    const start = this.now();
+    try {
+      return await fn();
+    } finally {
+      this.commands.push({
+        command,
+        task: running.name,
+        start,
+        duration: this.now() - start,
+        lane: running.lane,
+      });
+    }
+  }
+
+  // called once the run is over, failed or not
+  public finish() {
+    this.end ??= this.now();
+  }
+
+  // wall time of the whole run
+  public total(): number {
+    return this.end ?? this.now();
+  }
+
+  // the table printed by --timings, slowest tasks first
+  public summary(): string {
+    const useColor = humanOutput().isTTY;
+    const bold = useColor ? chalk.bold : (s: string) => s;
+    const dim = useColor ? chalk.dim : (s: string) => s;
+
+    const tasks = [...this.tasks].sort((a, b) => b.duration - a.duration);
+    const width = Math.max(4, ...tasks.map((t) => t.name.length));
+    const lines = [
+      bold(`\nTimings (${formatDuration(this.total())} in total):`),
+    ];
+
+    for (const task of tasks) {
+      const commands = this.commands.filter((c) => c.task === task.name);
+      const note =
+        task.status === "ran" ? `${commands.length} command(s)` : task.status;
+
+      lines.push(
+        `  ${task.name.padEnd(width)}  ${formatDuration(task.duration).padStart(8)}  ${dim(note)}`,
+      );
+    }
+
+    const slowest = [...this.commands]
+      .sort((a, b) => b.duration - a.duration)
+      .slice(0, 5);
+
+    if (slowest.length > 0) {
+      lines.push(bold("\nSlowest commands:"));
+      for (const command of slowest) {
+        lines.push(
+          `  ${formatDuration(command.duration).padStart(8)}  ${command.command} ${dim(`(${command.task})`)}`,
+        );
+      }
+    }
+
+    return lines.join("\n");
+  }
+
+  // the Trace Event Format read by chrome://tracing and Perfetto, with a
+  // thread for every --jobs slot
+  public toTrace(): object {
+    const us = (ms: number) => Math.round(ms * 1000);
+    const lanes = new Set(this.tasks.map((t) => t.lane));
+
+    return {
+      displayTimeUnit: "ms",
+      traceEvents: [
+        {
+          name: "process_name",
+          ph: "M",
+          pid: 1,
+          args: { name: "build" },
+        },
+        ...[...lanes].map((lane) => ({
+          name: "thread_name",
+          ph: "M",
+          pid: 1,
+          tid: lane + 1,
+          args: { name: `job ${lane + 1}` },
+        })),
+        ...this.tasks.map((task) => ({
+          name: task.name,
+          cat: "task",
+          ph: "X",
+          ts: us(task.start),
+          dur: us(task.duration),
+          pid: 1,
+          tid: task.lane + 1,
+          args: { status: task.status },
+        })),
+        ...this.commands.map((command) => ({
+          name: command.command,
+          cat: "command",
+          ph: "X",
+          ts: us(command.start),
+          dur: us(command.duration),
+          pid: 1,
+          tid: command.lane + 1,
+          args: { task: command.task },
+        })),
+      ],
+    };
+  }
+
+  private now(): number {
+    return performance.now() - this.origin;
+  }
+}
+
+// runs `fn`, timing it as a command of the task being run by the caller.
+// commands run outside of a task, while the Buildfile loads, aren't timed
+export function timeCommand<T>(command: string, fn: () => Promise<T>) {
+  const running = storage.getStore();
+  if (!running) return fn();
+  return running.timings.command(running, command, fn);
+}
+
+// the name of the task being run by the caller, null outside of a task
+export function runningTask(): string | null {
+  return storage.getStore()?.name ?? null;
+}
+
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(2)}s`;
+
+  const minutes = Math.floor(ms / 60_000);
+  const seconds = Math.round((ms % 60_000) / 1000);
+  return `${minutes}m ${seconds}s`;
+}
@@ -1,4 +1,4 @@
-import { Expr } from "./ast.js";
+import { Expr, FunctionParam, Span, Stmt, TaskDependency } from "./ast.js";
 import Environment from "./environment.js";
 
 export type ValueType =
@@ -9,6 +9,7 @@ export type ValueType =
   | "array"
   | "object"
   | "native-fn"
+  | "fn"
   | "task"
   | "tool";
 
@@ -60,6 +61,7 @@ export function MK_STRING(str = ""): StringVal {
 export interface ArrayVal extends RuntimeVal {
   type: "array";
   elements: RuntimeVal[];
+  frozen?: boolean; // part of a constant
 }
 
 export function MK_ARRAY(elements: RuntimeVal[] = []): ArrayVal {
@@ -69,6 +71,7 @@ export function MK_ARRAY(elements: RuntimeVal[] = []): ArrayVal {
 export interface ObjectVal extends RuntimeVal {
   type: "object";
   properties: Map<string, RuntimeVal>;
+  frozen?: boolean; // part of a constant
 }
 
 export function MK_OBJECT(obj: Record<string, RuntimeVal> = {}): ObjectVal {
@@ -79,9 +82,34 @@ export function MK_OBJECT(obj: Record<string, RuntimeVal> = {}): ObjectVal {
   return { type: "object", value: properties, properties };
 }
 
+// what a constant holds: a copy of `value` that can't be changed, all the
+// way down. copying keeps a variable it was read from changeable
+export function frozenCopy(value: RuntimeVal): RuntimeVal {
+  if (value.type === "array") {
+    const copy = MK_ARRAY((value as ArrayVal).elements.map(frozenCopy));
+    copy.frozen = true;
+    return copy;
+  }
+  if (value.type === "object") {
+    const copy = MK_OBJECT();
+    for (const [key, v] of (value as ObjectVal).properties) {
+      copy.properties.set(key, frozenCopy(v));
+    }
+    copy.frozen = true;
+    return copy;
+  }
+  return value;
+}
+
 // executables & dsl primitives
 
-export type FunctionCall = (args: RuntimeVal[], env: Environment) => RuntimeVal;
+// named arguments arrive separately, so an object passed positionally
+// stays a positional argument
+export type FunctionCall = (
+  args: RuntimeVal[],
+  env: Environment,
+  named: Map<string, RuntimeVal>,
+) => RuntimeVal | Promise<RuntimeVal>;
 
 export interface NativeFnValue extends RuntimeVal {
   type: "native-fn";
@@ -96,24 +124,66 @@ export function MK_NATIVE_FN(call: FunctionCall): NativeFnValue {
   };
 }
 
+export interface FunctionVal extends RuntimeVal {
+  type: "fn";
+  name: string;
+  parameters: FunctionParam[];
+  body: Stmt[];
+  env: Environment; // the scope the function closes over
+}
+
+export function MK_FN(
+  name: string,
+  parameters: FunctionParam[],
+  body: Stmt[],
+  env: Environment,
+): FunctionVal {
+  return {
+    type: "fn",
+    value: name,
+    name,
+    parameters,
+    body,
+    env,
+  };
+}
+
 export interface TaskVal extends RuntimeVal {
   type: "task";
   name: string;
-  dependencies: string[];
+  parameters: FunctionParam[];
+  dependencies: TaskDependency[];
+  properties: Map<string, Expr>; // inputs, outputs, watch
   body: Expr[];
+  hooks: Map<string, Stmt[]>; // on_failure, finally
+  env: Environment; // the scope the task was declared in
+  span: Span; // where it was declared
+  doc: string | null;
 }
 
 export function MK_TASK(
   name: string,
-  dependencies: string[],
+  parameters: FunctionParam[],
+  dependencies: TaskDependency[],
+  properties: Map<string, Expr>,
   body: Expr[],
+  hooks: Map<string, Stmt[]>,
+  env: Environment,
+  span: Span,
+  doc: string | null,
 ): TaskVal {
   return {
     type: "task",
     value: name, // makes debugging easier by identifying the task
     name,
+    parameters,
     dependencies,
+    properties,
     body,
+    hooks,
+    env,
+    span,
+    doc,
   };
 }
 
@@ -125,16 +195,94 @@ export interface ToolVal extends RuntimeVal {
     arch: string | null;
     expr: Expr;
   }[];
+  env: Environment; // the scope the tool was declared in
 }
 
 export function MK_TOOL(
   name: string,
   options: { platform: string | null; arch: string | null; expr: Expr }[],
+  env: Environment,
 ): ToolVal {
   return {
     type: "tool",
     value: name,
     name,
     options,
+    env,
   };
 }
+
+// helpers
+
+// nil, false, 0, NaN, "" and empty arrays/objects are falsy; everything else
+// (including tasks, tools and functions) is truthy
+export function isTruthy(val: RuntimeVal): boolean {
+  switch (val.type) {
+    case "nil":
+      return false;
+    case "boolean":
+      return val.value === true;
+    case "number":
+      return val.value !== 0 && !Number.isNaN(val.value);
+    case "string":
+      return val.value !== "";
+    case "array":
+      return (val as ArrayVal).elements.length > 0;
+    case "object":
+      return (val as ObjectVal).properties.size > 0;
+    default:
+      return true;
+  }
+}
+
+// text form used by template strings and string concatenation
+export function stringify(val: RuntimeVal): string {
+  switch (val.type) {
+    case "nil":
+      return "nil";
+    case "array":
+      return (val as ArrayVal).elements.map(stringify).join(",");
+    case "object": {
+      const entries = [...(val as ObjectVal).properties].map(
+        ([key, v]) => `${key}: ${stringify(v)}`,
+      );
+      return `{ ${entries.join(", ")} }`;
+    }
+    default:
+      return String(val.value);
+  }
+}
+
+// structural equality for data, identity for tasks, tools and functions
+export function valuesEqual(a: RuntimeVal, b: RuntimeVal): boolean {
+  if (a.type !== b.type) return false;
+
+  switch (a.type) {
+    case "nil":
+      return true;
+    case "boolean":
+    case "number":
+    case "string":
+      return a.value === b.value;
+    case "array": {
+      const left = (a as ArrayVal).elements;
+      const right = (b as ArrayVal).elements;
+      return (
+        left.length === right.length &&
+        left.every((el, i) => valuesEqual(el, right[i]))
+      );
+    }
+    case "object": {
+      const left = (a as ObjectVal).properties;
+      const right = (b as ObjectVal).properties;
+      if (left.size !== right.size) return false;
+      for (const [key, val] of left) {
+        const other = right.get(key);
+        if (!other || !valuesEqual(val, other)) return false;
+      }
+      return true;
+    }
+    default:
+      return a === b;
+  }
+}
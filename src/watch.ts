@@ -0,0 +1,135 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import chalk from "chalk";
+import { humanOutput } from "./output.js";
+
+// how long to wait for more changes before running again, editors and
+// tools tend to write several files at once
+const DEBOUNCE_MS = 200;
+
+// changes under these never count, the state file is written on every run
+const IGNORED_DIRS = new Set([".buildfile", ".git"]);
+
+// runs a build, resolving to the files whose changes should run it again.
+// it should stop early (and still resolve) once `signal` is aborted, and
+// pass `watch` the files it's about to use so changes during the run count
+export type WatchedBuild = (
+  signal: AbortSignal,
+  watch: (files: string[]) => void,
+) => Promise<string[]>;
+
+// runs `build`, then again every time one of its files changes. a change
+// while it's running cancels it and starts over
+export async function watchBuild(
+  taskArgs: string[],
+  build: WatchedBuild,
+): Promise<never> {
+  const out = humanOutput();
+  const dim = out.isTTY ? chalk.dim : (s: string) => s;
+  let files: string[] = [];
+
+  while (true) {
+    const controller = new AbortController();
+
+    // the files of the previous run until this one says which it uses
+    const during = new FileWatcher(files);
+    const run = build(controller.signal, (used) => during.add(used));
+    let change = await Promise.race([run.then(() => null), during.changed]);
+    during.close();
+
+    if (change) controller.abort();
+    files = await run;
+
+    if (!change) {
+      out.write(
+        dim(
+          `\nWatching ${files.length} file(s) to rerun ${taskArgs.join(" ")}. Press Ctrl+C to stop.`,
+        ) + "\n",
+      );
+
+      const after = new FileWatcher(files);
+      change = await after.changed;
+      after.close();
+    }
+
+    const displayPath = path.relative(process.cwd(), change) || change;
+    out.write(dim(`\nChange detected in ${displayPath}, running again\n`));
+  }
+}
+
+// resolves `changed` with the first of `files` to change, once changes
+// have stopped coming in for a moment. directories are watched as a whole
+class FileWatcher {
+  public changed: Promise<string>;
+  private resolve!: (file: string) => void;
+  private first: string | null = null;
+  private watched = new Set<string>();
+  private dirs = new Map<string, boolean>(); // dir -> recursive
+  private watchers: fs.FSWatcher[] = [];
+  private timer?: NodeJS.Timeout;
+  private closed = false;
+
+  constructor(files: string[]) {
+    this.changed = new Promise((resolve) => (this.resolve = resolve));
+    this.add(files);
+  }
+
+  // watches more files, eg. the ones a build turns out to use
+  public add(files: string[]) {
+    if (this.closed) return;
+
+    // files are watched through their directory so that replacing them
+    // (as many editors do when saving) is still noticed
+    const byDir = new Map<string, boolean>();
+    for (const file of files.map((f) => path.resolve(f))) {
+      this.watched.add(file);
+      if (isDirectory(file)) byDir.set(file, true);
+      else if (!byDir.has(path.dirname(file))) {
+        byDir.set(path.dirname(file), false);
+      }
+    }
+
+    for (const [dir, recursive] of byDir) {
+      // already watched, and for all of it if need be
+      if (this.dirs.get(dir) === true || this.dirs.get(dir) === recursive) {
+        continue;
+      }
+      this.dirs.set(dir, recursive);
+
+      try {
+        const watcher = fs.watch(dir, { recursive }, (_event, name) => {
+          if (!name) return;
+          const file = path.join(dir, name.toString());
+
+          const segments = path.relative(dir, file).split(path.sep);
+          if (segments.some((s) => IGNORED_DIRS.has(s))) return;
+
+          if (recursive || this.watched.has(file)) this.onChange(file);
+        });
+        this.watchers.push(watcher);
+      } catch {
+        // gone since the build listed it, nothing to watch there
+      }
+    }
+  }
+
+  public close() {
+    this.closed = true;
+    clearTimeout(this.timer);
+    this.watchers.forEach((w) => w.close());
+  }
+
+  private onChange(file: string) {
+    this.first ??= file;
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.resolve(this.first!), DEBOUNCE_MS);
+  }
+}
+
+function isDirectory(file: string): boolean {
+  try {
+    return fs.statSync(file).isDirectory();
+  } catch {
+    return false;
+  }
+}